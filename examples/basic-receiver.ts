@@ -34,6 +34,9 @@ console.log("Starting LocalSend receiver with device info:", deviceInfo)
 const server = new LocalSendHonoServer(deviceInfo, {
 	saveDirectory: "./received_files",
 	pin: "123456",
+	onMessage: (sender, text) => {
+		console.log(`💬 Message from ${sender.alias}: ${text}`)
+	},
 	onTransferProgress: async (
 		_fileId,
 		fileName,
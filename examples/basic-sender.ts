@@ -1,8 +1,11 @@
-import { getDeviceInfo, LocalSendClient, MulticastDiscovery, HttpDiscovery } from "../src"
-import type { FileMetadata } from "../src"
-import { createHash } from "crypto"
-import { readFile } from "fs/promises"
-import path from "path"
+import {
+	getDeviceInfo,
+	LocalSendClient,
+	LocalSendError,
+	buildFileMetadataFromPath,
+	MulticastDiscovery,
+	HttpDiscovery
+} from "../src"
 
 if (process.argv.length < 4) {
 	console.error("Usage: bun examples/basic-sender.ts <target-device-ip> <file-path>")
@@ -23,87 +26,71 @@ console.log("Starting LocalSend sender with device info:", deviceInfo)
 // Create client
 const client = new LocalSendClient(deviceInfo)
 
-// Get target device info
-console.log(`Getting device info for ${targetIp}...`)
-const targetDevice = await client.getDeviceInfo({
-	ip: targetIp,
-	port: deviceInfo.port
-})
-
-if (!targetDevice) {
-	console.error("Failed to get device info for target")
+// Every client request rejects with a LocalSendError whose message is fit to show
+const fail = (what: string, err: unknown): never => {
+	console.error(`${what}: ${err instanceof LocalSendError ? err.message : err}`)
 	process.exit(1)
 }
 
-console.log(`Target device: ${targetDevice.alias}`)
-
-// Prepare file metadata
-const fileId = createHash("md5").update(filePath).digest("hex")
-const fileName = path.basename(filePath)
-const fileStats = await readFile(filePath)
-const fileSize = fileStats.length
+// Get target device info
+console.log(`Getting device info for ${targetIp}...`)
+const targetDevice = await client
+	.getDeviceInfo({
+		ip: targetIp,
+		port: deviceInfo.port
+	})
+	.catch((err) => fail("Failed to get device info for target", err))
 
-// Calculate file hash
-const fileHash = createHash("sha256").update(fileStats).digest("hex")
+console.log(`Target device: ${targetDevice.alias}`)
 
-const fileMetadata: FileMetadata = {
-	id: fileId,
-	fileName,
-	size: fileSize,
-	fileType: "application/octet-stream", // You might want to detect the content type
-	sha256: fileHash,
-	metadata: {
-		modified: new Date().toISOString()
-	}
-}
+// Prepare file metadata; the file is hashed as a stream, never read into memory
+const { fileId, fileMetadata } = await buildFileMetadataFromPath(filePath)
 
 // Prepare upload
 console.log("Preparing upload...")
-const uploadPrepare = await client.prepareUpload(
-	{
-		ip: targetIp,
-		port: deviceInfo.port,
-		protocol: "http"
-	},
-	{ [fileId]: fileMetadata },
-	"123456" // PIN (if required)
-)
-
-if (!uploadPrepare) {
-	console.error("Failed to prepare upload")
-	process.exit(1)
-}
+const uploadPrepare = await client
+	.prepareUpload(
+		{
+			ip: targetIp,
+			port: deviceInfo.port,
+			protocol: "http"
+		},
+		{ [fileId]: fileMetadata },
+		"123456" // PIN (if required)
+	)
+	.catch((err) => fail("Failed to prepare upload", err))
 
 console.log("Upload prepared, session ID:", uploadPrepare.sessionId)
 
 // Upload file
 console.log("Uploading file...")
-const success = await client.uploadFile(
-	{
-		ip: targetIp,
-		port: deviceInfo.port,
-		protocol: "http"
-	},
-	uploadPrepare.sessionId,
-	fileId,
-	uploadPrepare.files[fileId],
-	filePath
-)
-
-if (success) {
-	console.log("File uploaded successfully!")
-} else {
-	console.error("Failed to upload file")
-
-	// Cancel session
-	await client.cancelSession(
+try {
+	await client.uploadFile(
 		{
 			ip: targetIp,
 			port: deviceInfo.port,
 			protocol: "http"
 		},
-		uploadPrepare.sessionId
+		uploadPrepare.sessionId,
+		fileId,
+		uploadPrepare.files[fileId],
+		filePath
 	)
+	console.log("File uploaded successfully!")
+} catch (err) {
+	console.error(`Failed to upload file: ${err instanceof LocalSendError ? err.message : err}`)
+
+	// Cancel session; the receiver may already have dropped it
+	await client
+		.cancelSession(
+			{
+				ip: targetIp,
+				port: deviceInfo.port,
+				protocol: "http"
+			},
+			uploadPrepare.sessionId
+		)
+		.catch(() => {})
 
 	console.log("Session canceled")
 }
@@ -36,6 +36,9 @@ const pin = "123456"
 const server = new LocalSendHonoServer(deviceInfo, {
 	saveDirectory: "./received_files",
 	pin: pin,
+	onMessage: (sender, text) => {
+		console.log(`💬 Message from ${sender.alias}: ${text}`)
+	},
 	onTransferProgress: async (
 		_fileId,
 		fileName,
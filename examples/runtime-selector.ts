@@ -37,6 +37,7 @@ switch (forceRuntime) {
 const server = new LocalSendHonoServer(deviceInfo, {
 	saveDirectory: "./received_files",
 	pin: "123456",
+	onMessage: (sender, text) => console.log(`Message from ${sender.alias}: ${text}`),
 	serverAdapter // Pass the adapter
 })
 
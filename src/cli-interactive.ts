@@ -2,10 +2,9 @@
 import { defineCommand, runMain } from "citty"
 import { getDeviceInfo, LocalSendClient, LocalSendHonoServer, HttpDiscovery } from "./index.ts"
 import { createDiscovery, createScanner } from "./discovery/runtime.ts"
-import type { FileMetadata, DeviceInfo } from "./index.ts"
-import { createHash } from "node:crypto"
-import { readFile, stat } from "node:fs/promises"
-import path from "node:path"
+import { buildFileMetadataFromPath } from "./core/files.ts"
+import type { FileMetadata, DeviceInfo, LocalSendError } from "./index.ts"
+import { stat } from "node:fs/promises"
 import readline from "node:readline"
 import cliProgress from "cli-progress"
 import prettyBytes from "pretty-bytes"
@@ -248,19 +247,24 @@ class InteractiveLocalSend {
 			return
 		}
 
-		// Create a temporary text file
-		const tempFileName = `message_${Date.now()}.txt`
-		const tempFilePath = path.join("/tmp", tempFileName)
-		await fs.promises.writeFile(tempFilePath, textMessage)
-
+		console.log(`\n📤 Sending text message to ${targetDevice.alias}...`)
+		const pin = await this.question("Enter PIN (leave empty if none required): ")
+		const client = new LocalSendClient(this.deviceInfo)
 		try {
-			await this.sendFileToDevice(targetDevice, tempFilePath, true)
-		} finally {
-			// Clean up temp file
-			try {
-				await fs.promises.unlink(tempFilePath)
-			} catch {}
+			await client.sendMessage(
+				{
+					ip: targetDevice.ip!,
+					port: targetDevice.port,
+					protocol: targetDevice.protocol || "https"
+				},
+				textMessage,
+				pin
+			)
+			console.log("✅ Text message delivered!")
+		} catch (err) {
+			console.log(`❌ Failed to send text message: ${(err as LocalSendError).message}`)
 		}
+		await this.question("Press Enter to return to main menu...")
 	}
 
 	private async sendFile() {
@@ -301,72 +305,46 @@ class InteractiveLocalSend {
 			return
 		}
 
-		await this.sendFileToDevice(targetDevice, filePath, false)
+		await this.sendFileToDevice(targetDevice, filePath)
 	}
 
-	private async sendFileToDevice(
-		targetDevice: DeviceInfo,
-		filePath: string,
-		isTextMessage: boolean = false
-	) {
-		console.log(
-			`\n📤 Sending ${isTextMessage ? "text message" : "file"} to ${targetDevice.alias}...`
-		)
+	private async sendFileToDevice(targetDevice: DeviceInfo, filePath: string) {
+		console.log(`\n📤 Sending file to ${targetDevice.alias}...`)
 
 		try {
 			// Create client
 			const client = new LocalSendClient(this.deviceInfo)
 
-			// Prepare file metadata
-			const fileId = createHash("md5").update(filePath).digest("hex")
-			const fileName = path.basename(filePath)
-			const fileStats = await readFile(filePath)
-			const fileSize = fileStats.length
-			const fileHash = createHash("sha256").update(fileStats).digest("hex")
-
-			const previewText = isTextMessage ? fileStats.toString("utf8") : undefined
-			const fileMetadata: FileMetadata = {
-				id: fileId,
-				fileName: isTextMessage ? `message.txt` : fileName,
-				size: fileSize,
-				fileType: isTextMessage ? "text/plain" : "application/octet-stream",
-				sha256: fileHash,
-				preview: previewText,
-				metadata: {
-					modified: new Date().toISOString()
-				}
-			}
+			// Prepare file metadata, hashing as a stream rather than loading the file
+			const { fileId, fileMetadata } = await buildFileMetadataFromPath(filePath)
+			const { fileName, size: fileSize } = fileMetadata
 
 			// Get PIN if needed
 			const pin = await this.question("Enter PIN (leave empty if none required): ")
 
 			// Prepare upload
 			console.log("Preparing upload...")
-			const uploadPrepare = await client.prepareUpload(
-				{
-					ip: targetDevice.ip!,
-					port: targetDevice.port,
-					protocol: targetDevice.protocol || "https"
-				},
-				{ [fileId]: fileMetadata },
-				pin
-			)
+			const uploadPrepare = await client
+				.prepareUpload(
+					{
+						ip: targetDevice.ip!,
+						port: targetDevice.port,
+						protocol: targetDevice.protocol || "https"
+					},
+					{ [fileId]: fileMetadata },
+					pin
+				)
+				.catch((err: LocalSendError) => {
+					console.log(`❌ Failed to prepare upload: ${err.message}`)
+					return null
+				})
 
 			if (!uploadPrepare) {
-				console.log(
-					"❌ Failed to prepare upload. Check if the device is reachable and PIN is correct."
-				)
 				await this.question("Press Enter to return to main menu...")
 				return
 			}
 
 			if (Object.keys(uploadPrepare.files || {}).length === 0) {
-				if (isTextMessage) {
-					console.log("✅ Text message delivered (no file upload required).")
-					await this.question("Press Enter to return to main menu...")
-					return
-				}
-
 				console.log("❌ No file tokens returned. Transfer was not accepted.")
 				await this.question("Press Enter to return to main menu...")
 				return
@@ -386,24 +364,15 @@ class InteractiveLocalSend {
 
 			const sizeDisplay = `${formatFileSize(0)}/${formatFileSize(fileSize)}`
 			progressBar.start(fileSize, 0, {
-				filename: (isTextMessage ? "message.txt" : fileName).padEnd(25),
+				filename: fileName.padEnd(25),
 				sizeDisplay,
 				speed: "0 B/s",
 				eta: "?",
 				percentage: "0.0"
 			})
 
-			// Set up progress tracking
-			const startTime = Date.now()
-			let lastBytes = 0
-			let lastTime = startTime
-
-			client.setProgressCallback((bytesUploaded, totalBytes, finished) => {
-				const now = Date.now()
-				const timeDiff = (now - lastTime) / 1000
-				const bytesDiff = bytesUploaded - lastBytes
-				const speed = timeDiff > 0 ? bytesDiff / timeDiff : 0
-
+			// The client measures bytes as they leave and smooths the speed
+			client.setProgressCallback((bytesUploaded, totalBytes, finished, speed) => {
 				const speedText = `${formatFileSize(speed)}/s`
 				const formattedSizeDisplay = `${formatFileSize(bytesUploaded)}/${formatFileSize(fileSize)}`
 				const bytesRemaining = totalBytes - bytesUploaded
@@ -425,9 +394,6 @@ class InteractiveLocalSend {
 					percentage: ((bytesUploaded / totalBytes) * 100).toFixed(1)
 				})
 
-				lastBytes = bytesUploaded
-				lastTime = now
-
 				if (finished) {
 					progressBar.stop()
 				}
@@ -441,22 +407,21 @@ class InteractiveLocalSend {
 				return
 			}
 
-			const success = await client.uploadFile(
-				{
-					ip: targetDevice.ip!,
-					port: targetDevice.port,
-					protocol: targetDevice.protocol || "https"
-				},
-				uploadPrepare.sessionId,
-				fileId,
-				fileToken,
-				filePath
-			)
-
-			if (success) {
-				console.log(`✅ ${isTextMessage ? "Text message" : "File"} sent successfully!`)
-			} else {
-				console.log(`❌ Failed to send ${isTextMessage ? "text message" : "file"}`)
+			try {
+				await client.uploadFile(
+					{
+						ip: targetDevice.ip!,
+						port: targetDevice.port,
+						protocol: targetDevice.protocol || "https"
+					},
+					uploadPrepare.sessionId,
+					fileId,
+					fileToken,
+					filePath
+				)
+				console.log("✅ File sent successfully!")
+			} catch (err) {
+				console.log(`❌ Failed to send file: ${(err as LocalSendError).message}`)
 			}
 		} catch (error) {
 			console.error("Error sending:", error)
@@ -506,6 +471,9 @@ class InteractiveLocalSend {
 		this.currentServer = new LocalSendHonoServer(this.deviceInfo, {
 			saveDirectory: finalSaveDir,
 			pin: pin,
+			onMessage: (senderInfo: DeviceInfo, text: string) => {
+				console.log(`\n💬 Message from ${senderInfo.alias}:\n${text}\n`)
+			},
 			onTransferRequest: async (senderInfo: DeviceInfo, files: Record<string, FileMetadata>) => {
 				const filesInfo = Object.values(files)
 					.map((file) => `${file.fileName} (${formatFileSize(file.size)})`)
@@ -582,6 +550,7 @@ class InteractiveLocalSend {
 						console.log(`   Type: ${fileType}`)
 						console.log(`   Size: ${formatFileSize(total)}`)
 						console.log(`   Time: ${timeSeconds}s (${avgSpeedFormatted})`)
+						if (transferInfo.verified) console.log("   SHA-256: ✓ verified")
 						console.log(`   Path: ${transferInfo.filePath}\n`)
 					}
 				}
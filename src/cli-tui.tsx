@@ -10,7 +10,11 @@ export type { TuiOptions }
  *  subcommand) and `localsend --tui`; needs a runtime with FFI (Bun / Node ≥26.4). */
 export function runTui(opts: TuiOptions = {}): void {
 	const deviceInfo = buildTuiDeviceInfo(opts)
-	const store = createTuiStore(deviceInfo, undefined, { saveDir: opts.saveDir })
+	const store = createTuiStore(deviceInfo, undefined, {
+		saveDir: opts.saveDir,
+		collisionPolicy: opts.collisionPolicy,
+		pin: opts.pin
+	})
 	render(() => <App store={store} />, { exitOnCtrlC: true })
 }
 
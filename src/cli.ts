@@ -3,16 +3,156 @@ import { defineCommand, runMain } from "citty"
 // import { version } from "../package.json"
 import { getDeviceInfo, LocalSendClient, LocalSendHonoServer, HttpDiscovery } from "./index.ts"
 import { createDiscovery, createScanner } from "./discovery/runtime.ts"
-import type { FileMetadata, DeviceInfo } from "./index.ts"
-import { createHash } from "node:crypto"
-import { readFile } from "node:fs/promises"
-import path from "node:path"
+import type {
+	FileMetadata,
+	DeviceInfo,
+	CollisionPolicy,
+	CollisionResolution,
+	LocalSendError
+} from "./index.ts"
+import { isIP } from "node:net"
 import readline from "node:readline"
 import cliProgress from "cli-progress"
 import prettyBytes from "pretty-bytes"
 
 const defaultName = `XC LocalSend CLI ${Math.floor(100 + Math.random() * 900)}`
 
+/**
+ * Turn a consent answer into the accepted fileIds: "y" takes every file, a list
+ * of 1-based numbers ("1,3" or "1 3") takes just those, anything else none.
+ */
+function parseFileSelection(answer: string, fileIds: string[]): string[] {
+	const trimmed = answer.trim().toLowerCase()
+	if (trimmed === "y" || trimmed === "yes") return fileIds
+	const picked = new Set<string>()
+	for (const token of trimmed.split(/[\s,]+/)) {
+		const index = parseInt(token, 10) - 1
+		const fileId = fileIds[index]
+		if (fileId !== undefined) picked.add(fileId)
+	}
+	return fileIds.filter((fileId) => picked.has(fileId))
+}
+
+/** Format an ETA nicely for longer transfers; "?" while it is unknown. */
+function formatEta(seconds: number | null): string {
+	if (seconds === null) return "?"
+	const eta = Math.ceil(seconds)
+	if (eta > 3600) return `${Math.floor(eta / 3600)}h ${Math.floor((eta % 3600) / 60)}m`
+	if (eta > 60) return `${Math.floor(eta / 60)}m ${eta % 60}s`
+	return `${eta}s`
+}
+
+/**
+ * One progress bar per file, created on a file's first update. Shared by
+ * `send` and `download`.
+ */
+function createFileBars() {
+	const multiBar = new cliProgress.MultiBar(
+		{
+			clearOnComplete: false,
+			hideCursor: true,
+			format: "{filename} [{bar}] {percentage}% | {sizeDisplay} | Speed: {speed} | ETA: {eta}",
+			barCompleteChar: "\u2588",
+			barIncompleteChar: "\u2591"
+		},
+		cliProgress.Presets.shades_classic
+	)
+	const bars = new Map<string, cliProgress.SingleBar>()
+	return {
+		update(fileId: string, fileName: string, bytes: number, totalBytes: number, speed: number) {
+			let bar = bars.get(fileId)
+			if (!bar) {
+				bar = multiBar.create(totalBytes, 0, {
+					filename: fileName.length > 25 ? fileName.substring(0, 22) + "..." : fileName.padEnd(25)
+				})
+				bars.set(fileId, bar)
+			}
+			const remaining = totalBytes - bytes
+			bar.update(bytes, {
+				sizeDisplay: `${prettyBytes(bytes)}/${prettyBytes(totalBytes)}`,
+				speed: `${prettyBytes(speed)}/s`,
+				eta: formatEta(remaining <= 0 ? 0 : speed > 0 ? remaining / speed : null),
+				percentage: totalBytes > 0 ? ((bytes / totalBytes) * 100).toFixed(1) : "100.0"
+			})
+		},
+		/** Replace a file's speed with a final status such as "✓ sent". */
+		finish(fileId: string, status: string, done: boolean) {
+			bars.get(fileId)?.update(done ? { speed: status, eta: "0s" } : { speed: status })
+		},
+		stop: () => multiBar.stop()
+	}
+}
+
+/**
+ * Match a file name against comma-separated glob patterns: `*` and `?` stay
+ * within one folder, `**` crosses folders. A pattern without a slash is also
+ * tried against the base name, so `*.jpg` matches `album/a.jpg`.
+ */
+function matchesPatterns(fileName: string, patterns: string): boolean {
+	const baseName = fileName.slice(fileName.lastIndexOf("/") + 1)
+	return patterns
+		.split(",")
+		.map((pattern) => pattern.trim())
+		.filter(Boolean)
+		.some((pattern) => {
+			const source = pattern
+				.split("**")
+				.map((part) =>
+					part
+						.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+						.replace(/\*/g, "[^/]*")
+						.replace(/\?/g, "[^/]")
+				)
+				.join(".*")
+			const regex = new RegExp(`^${source}$`, "i")
+			return regex.test(fileName) || (!pattern.includes("/") && regex.test(baseName))
+		})
+}
+
+/**
+ * Find a device by alias (case-insensitive) with multicast and an HTTP scan,
+ * giving up after `timeoutMs`. Resolves null when nothing answers to it.
+ */
+async function findDeviceByAlias(
+	deviceInfo: DeviceInfo,
+	alias: string,
+	timeoutMs: number
+): Promise<DeviceInfo | null> {
+	const discovery = createDiscovery(deviceInfo)
+	const scanner = createScanner(deviceInfo)
+	try {
+		return await new Promise<DeviceInfo | null>((resolve) => {
+			const timer = setTimeout(() => resolve(null), timeoutMs)
+			const check = (device: DeviceInfo) => {
+				if (device.ip && device.alias.toLowerCase() === alias.toLowerCase()) {
+					clearTimeout(timer)
+					resolve(device)
+				}
+			}
+			discovery.onDeviceDiscovered(check)
+			scanner.onDeviceDiscovered(check)
+			discovery
+				.start()
+				.then(() => discovery.announcePresence?.())
+				.catch(() => {})
+			scanner.startScan?.().catch(() => {})
+		})
+	} finally {
+		discovery.stop()
+		scanner.stop()
+	}
+}
+
+const COLLISION_POLICIES: CollisionPolicy[] = ["rename", "overwrite", "skip-if-identical", "ask"]
+
+/** Map a collision prompt answer to a resolution; anything unrecognised renames. */
+function parseCollisionAnswer(answer: string): CollisionResolution {
+	const trimmed = answer.trim().toLowerCase()
+	if (trimmed === "o" || trimmed === "overwrite") return "overwrite"
+	if (trimmed === "s" || trimmed === "skip") return "skip"
+	return "rename"
+}
+
 const main = defineCommand({
 	meta: {
 		name: "localsend",
@@ -36,6 +176,15 @@ const main = defineCommand({
 			type: "string",
 			description: "Directory to save received files (TUI, default: ./received_files)"
 		},
+		onCollision: {
+			type: "string",
+			description:
+				"What to do when a received file's name already exists: rename, overwrite, skip-if-identical or ask (TUI, default: rename)"
+		},
+		pin: {
+			type: "string",
+			description: "PIN senders must enter before you receive anything (TUI)"
+		},
 		https: {
 			type: "boolean",
 			description:
@@ -47,7 +196,7 @@ const main = defineCommand({
 		send: defineCommand({
 			meta: {
 				name: "send",
-				description: "Send a file to another device"
+				description: "Send files, folders or a text message to another device"
 			},
 			args: {
 				target: {
@@ -57,8 +206,13 @@ const main = defineCommand({
 				},
 				file: {
 					type: "positional",
-					description: "Path to the file to send",
-					required: true
+					description:
+						"Files or folders to send; list as many as you like (omit when using --text)",
+					required: false
+				},
+				text: {
+					type: "string",
+					description: "Send this text as a message instead of a file"
 				},
 				alias: {
 					type: "string",
@@ -67,8 +221,7 @@ const main = defineCommand({
 				},
 				pin: {
 					type: "string",
-					description: "PIN for authentication (if required)",
-					default: "123456"
+					description: "PIN for authentication (if required)"
 				},
 				port: {
 					type: "string",
@@ -79,6 +232,10 @@ const main = defineCommand({
 					description: "Protocol to use (http or https)",
 					default: "http"
 				},
+				hashLimit: {
+					type: "string",
+					description: "Send files larger than this many MiB without a checksum"
+				},
 				verbose: {
 					type: "boolean",
 					description: "Show verbose output",
@@ -88,6 +245,14 @@ const main = defineCommand({
 			async run({ args }) {
 				const targetIp = args.target as string
 				const filePath = args.file as string
+				const text = args.text as string | undefined
+				if (filePath && text !== undefined) {
+					console.error("Give either files to send or --text, not both")
+					process.exit(1)
+				} else if (!filePath && text === undefined) {
+					console.error("Nothing to send: give files to send or --text")
+					process.exit(1)
+				}
 				const protocol = args.protocol as "http" | "https"
 				const portString = args.port as string | undefined
 				const port = portString ? parseInt(portString, 10) : undefined
@@ -106,182 +271,96 @@ const main = defineCommand({
 
 				// Create client
 				const client = new LocalSendClient(deviceInfo)
+				// Ctrl+C aborts the transfer and cancels it on the receiver; a second
+				// Ctrl+C falls back to the default handler and exits at once.
+				const abort = new AbortController()
+				process.once("SIGINT", () => abort.abort())
 
 				// Get target device info
 				console.log(`Getting device info for ${targetIp}...`)
-				const targetDevice = await client.getDeviceInfo({
-					ip: targetIp,
-					port: deviceInfo.port,
-					protocol
-				})
-
-				if (!targetDevice) {
-					console.error("Failed to get device info for target")
-					process.exit(1)
-				}
+				const targetDevice = await client
+					.getDeviceInfo({ ip: targetIp, port: deviceInfo.port, protocol }, abort.signal)
+					.catch((err: LocalSendError) => {
+						console.error(`Failed to get device info for target: ${err.message}`)
+						process.exit(err.kind === "aborted" ? 130 : 1)
+					})
 
 				console.log(`Target device: ${targetDevice.alias}`)
 
-				// Prepare file metadata
-				const fileId = createHash("md5").update(filePath).digest("hex")
-				const fileName = path.basename(filePath)
-				const fileStats = await readFile(filePath)
-				const fileSize = fileStats.length
-
-				// Calculate file hash
-				const fileHash = createHash("sha256").update(fileStats).digest("hex")
-
-				const fileMetadata: FileMetadata = {
-					id: fileId,
-					fileName,
-					size: fileSize,
-					fileType: "application/octet-stream", // You might want to detect the content type
-					sha256: fileHash,
-					metadata: {
-						modified: new Date().toISOString()
+				if (text !== undefined) {
+					try {
+						await client.sendMessage(
+							{
+								ip: targetIp,
+								port: deviceInfo.port,
+								protocol: targetDevice.protocol || protocol
+							},
+							text,
+							args.pin as string | undefined,
+							abort.signal
+						)
+					} catch (err) {
+						const { kind, message } = err as LocalSendError
+						console.error(kind === "aborted" ? "Canceled" : `❌ Failed to send message: ${message}`)
+						process.exit(kind === "aborted" ? 130 : 1)
 					}
+					console.log("✅ Message delivered!")
+					// Exit here, or citty would go on to run the bare command (the TUI).
+					process.exit(0)
 				}
 
-				// Prepare upload
+				// Every positional after the target is a file or folder to send
+				const paths = (args._ as string[]).slice(1)
+				const bars = createFileBars()
+
 				console.log("Preparing upload...")
-				const targetProtocol = targetDevice.protocol || protocol
-				const uploadPrepare = await client.prepareUpload(
+				const results = await client.sendFiles(
 					{
 						ip: targetIp,
 						port: deviceInfo.port,
-						protocol: targetProtocol
+						protocol: targetDevice.protocol || protocol
 					},
-					{ [fileId]: fileMetadata },
-					args.pin as string
+					paths,
+					{
+						pin: args.pin as string | undefined,
+						signal: abort.signal,
+						hashLimit: args.hashLimit
+							? parseFloat(args.hashLimit as string) * 1024 * 1024
+							: undefined,
+						onFileProgress: ({ fileId, fileName, bytesUploaded, totalBytes, speed }) =>
+							bars.update(fileId, fileName, bytesUploaded, totalBytes, speed),
+						onFileResult: (result) => {
+							if (result.status === "sent") bars.finish(result.fileId, "✓ sent", true)
+							if (result.status === "failed") bars.finish(result.fileId, "✗ failed", false)
+						}
+					}
 				)
-
-				if (!uploadPrepare) {
-					console.error("Failed to prepare upload")
-					process.exit(1)
+				bars.stop()
+				if (abort.signal.aborted) {
+					const done = results.filter((r) => r.status === "sent").length
+					console.error(`Canceled after sending ${done} of ${results.length} files`)
+					process.exit(130)
 				}
 
-				if (!uploadPrepare.files || !uploadPrepare.files[fileId]) {
-					console.error("No file token returned. Transfer was not accepted.")
-					process.exit(1)
+				for (const result of results) {
+					if (result.status === "declined") console.log(`  – ${result.fileName} (declined)`)
+					if (result.status === "failed") {
+						console.log(`  ✗ ${result.fileName}: ${result.error?.message}`)
+					}
 				}
 
-				if (args.verbose) {
-					console.log("Upload prepared, session ID:", uploadPrepare.sessionId)
+				const sent = results.filter((r) => r.status === "sent").length
+				const failed = results.filter((r) => r.status === "failed").length
+				if (results.length === 0) {
+					console.error("Nothing to send: the folders are empty")
+					process.exit(1)
 				}
-
-				// Create progress bar for file upload
-				const progressBar = new cliProgress.SingleBar(
-					{
-						format:
-							"{filename} [{bar}] {percentage}% | {sizeDisplay} | Speed: {speed} | ETA: {eta}",
-						barCompleteChar: "\u2588",
-						barIncompleteChar: "\u2591",
-						clearOnComplete: false,
-						hideCursor: true
-					},
-					cliProgress.Presets.shades_classic
-				)
-
-				// Format size display based on file size
-				const sizeDisplay = `${prettyBytes(0)}/${prettyBytes(fileSize)}`
-
-				// Initialize the progress bar
-				progressBar.start(fileSize, 0, {
-					filename: fileName.length > 25 ? fileName.substring(0, 22) + "..." : fileName.padEnd(25),
-					sizeDisplay,
-					speed: "0 B/s",
-					eta: "?",
-					percentage: "0.0"
-				})
-
-				// Set up progress tracking variables
-				const startTime = Date.now()
-				let lastBytes = 0
-				let lastTime = startTime
-
-				// Set up progress tracking callback for the client
-				client.setProgressCallback((bytesUploaded, totalBytes, finished) => {
-					// Calculate instantaneous speed
-					const now = Date.now()
-					const timeDiff = (now - lastTime) / 1000 // seconds
-					const bytesDiff = bytesUploaded - lastBytes
-					const speed = timeDiff > 0 ? bytesDiff / timeDiff : 0 // bytes per second
-
-					// Format speed
-					const speedText = `${prettyBytes(speed)}/s`
-
-					// Format size display
-					const formattedSizeDisplay = `${prettyBytes(bytesUploaded)}/${prettyBytes(fileSize)}`
-
-					// Calculate ETA
-					const bytesRemaining = totalBytes - bytesUploaded
-					const eta = speed > 0 ? bytesRemaining / speed : 0 // seconds
-
-					// Format ETA
-					let etaDisplay
-					if (eta > 3600) {
-						etaDisplay = `${Math.floor(eta / 3600)}h ${Math.floor((eta % 3600) / 60)}m`
-					} else if (eta > 60) {
-						etaDisplay = `${Math.floor(eta / 60)}m ${Math.floor(eta % 60)}s`
-					} else {
-						etaDisplay = `${Math.floor(eta)}s`
-					}
-
-					// Update progress bar
-					progressBar.update(bytesUploaded, {
-						sizeDisplay: formattedSizeDisplay,
-						speed: speedText,
-						eta: eta > 0 ? etaDisplay : "?",
-						percentage: ((bytesUploaded / totalBytes) * 100).toFixed(1)
-					})
-
-					// Update last values for next calculation
-					lastBytes = bytesUploaded
-					lastTime = now
-
-					// If finished, update one last time
-					if (finished) {
-						progressBar.update(totalBytes, {
-							sizeDisplay: formattedSizeDisplay,
-							speed: `✓ ${speedText}`,
-							eta: "0s"
-						})
-						progressBar.stop()
-					}
-				})
-
-				// Upload file
-				console.log("Uploading file...")
-				const success = await client.uploadFile(
-					{
-						ip: targetIp,
-						port: deviceInfo.port,
-						protocol: targetProtocol
-					},
-					uploadPrepare.sessionId,
-					fileId,
-					uploadPrepare.files[fileId],
-					filePath
-				)
-
-				if (success) {
-					console.log("✅ File uploaded successfully!")
-				} else {
-					console.error("❌ Failed to upload file")
-
-					// Cancel session
-					await client.cancelSession(
-						{
-							ip: targetIp,
-							port: deviceInfo.port,
-							protocol: targetProtocol
-						},
-						uploadPrepare.sessionId
-					)
-
-					console.log("Session canceled")
+				if (sent === 0) {
+					console.error("❌ No files were sent")
 					process.exit(1)
 				}
+				console.log(`✅ Sent ${sent} of ${results.length} file${results.length === 1 ? "" : "s"}`)
+				process.exit(failed > 0 ? 1 : 0)
 			}
 		}),
 		receive: defineCommand({
@@ -326,8 +405,13 @@ const main = defineCommand({
 				},
 				maxRequestSize: {
 					type: "string",
-					description: "Maximum request body size in MB (default: 5120 MB/5GB)",
-					default: "5120"
+					description: "Optional size limit in MB for any single received file (default: no limit)"
+				},
+				onCollision: {
+					type: "string",
+					description:
+						"What to do when a received file's name already exists: rename, overwrite, skip-if-identical or ask",
+					default: "rename"
 				},
 				verbose: {
 					type: "boolean",
@@ -339,8 +423,18 @@ const main = defineCommand({
 				const portString = args.port as string | undefined
 				const port = portString ? parseInt(portString, 10) : undefined
 				const discoveryInterval = parseInt(args.discoveryInterval as string, 10) * 1000
-				const maxRequestSizeMB = parseInt(args.maxRequestSize as string, 10)
-				const maxRequestBodySize = maxRequestSizeMB * 1024 * 1024 // Convert MB to bytes
+				const maxRequestSizeString = args.maxRequestSize as string | undefined
+				const maxRequestSizeMB = maxRequestSizeString
+					? parseInt(maxRequestSizeString, 10)
+					: undefined
+				const maxRequestBodySize = maxRequestSizeMB ? maxRequestSizeMB * 1024 * 1024 : undefined
+				const collisionPolicy = args.onCollision as CollisionPolicy
+				if (!COLLISION_POLICIES.includes(collisionPolicy)) {
+					console.error(
+						`Invalid --onCollision value '${collisionPolicy}', expected one of: ${COLLISION_POLICIES.join(", ")}`
+					)
+					process.exit(1)
+				}
 
 				// Get device info with custom alias
 				const deviceInfo = getDeviceInfo({
@@ -351,7 +445,9 @@ const main = defineCommand({
 
 				if (args.verbose) {
 					console.log("Starting LocalSend receiver with device info:", deviceInfo)
-					console.log(`Maximum request body size: ${maxRequestSizeMB} MB`)
+					console.log(
+						`Maximum file size: ${maxRequestSizeMB ? `${maxRequestSizeMB} MB` : "no limit"}`
+					)
 				} else {
 					console.log(`Starting receiver as '${deviceInfo.alias}' on port ${deviceInfo.port}`)
 				}
@@ -371,30 +467,59 @@ const main = defineCommand({
 
 				// Track active progress bars
 				const activeProgressBars = new Map()
+				// The collision prompt last queued; the next one waits for it.
+				let collisionPrompts: Promise<unknown> = Promise.resolve()
 
 				// Create and start the Hono server
 				const server = new LocalSendHonoServer(deviceInfo, {
 					saveDirectory: args.saveDir as string,
-					pin: args.pin as string,
+					pin: args.pin as string | undefined,
+					onPinFailure: (failure) => {
+						const lockout = failure.lockedUntil
+							? `, locked out until ${new Date(failure.lockedUntil).toLocaleTimeString()}`
+							: ""
+						console.warn(
+							`\n⚠️  Wrong PIN from ${failure.ip ?? "unknown address"} (attempt ${failure.attempts}${lockout})`
+						)
+					},
 					maxRequestBodySize: maxRequestBodySize,
+					collisionPolicy,
+					onCollision: (file: FileMetadata, existingPath: string) => {
+						const ask = async () => {
+							const rl = readline.createInterface({
+								input: process.stdin,
+								output: process.stdout
+							})
+							const answer = await new Promise<string>((resolve) => {
+								rl.question(
+									`\n⚠️  ${existingPath} already exists. [R]ename, [o]verwrite or [s]kip ${file.fileName}? `,
+									(answer) => {
+										resolve(answer)
+										rl.close()
+									}
+								)
+							})
+							return parseCollisionAnswer(answer)
+						}
+						// Files upload in parallel, so collisions can arrive together. Ask one
+						// at a time: prompts sharing stdin would all take the same typed line.
+						const asked = collisionPrompts.then(ask)
+						collisionPrompts = asked.catch(() => {})
+						return asked
+					},
+					onMessage: (senderInfo: DeviceInfo, text: string) => {
+						console.log(`\n💬 Message from ${senderInfo.alias}:\n${text}`)
+					},
 					onTransferRequest: async (
 						senderInfo: DeviceInfo,
 						files: Record<string, FileMetadata>
 					) => {
-						// Format file info for display
-						const filesInfo = Object.values(files)
-							.map((file) => `${file.fileName} (${prettyBytes(file.size)})`)
-							.join(", ")
-
-						console.log(`\n📩 Incoming transfer request from ${senderInfo.alias}:`)
-						console.log(`Files: ${filesInfo}`)
-
-						// If autoAccept is enabled, skip confirmation and accept transfer automatically
-						if (args.autoAccept as boolean) {
-							console.log("Auto-accepting transfer...")
+						const fileIds = Object.keys(files)
 
-							// Create progress bars for each file
-							Object.entries(files).forEach(([fileId, file]) => {
+						// Create progress bars for the files that will actually arrive
+						const createProgressBars = (acceptedIds: string[]) => {
+							for (const fileId of acceptedIds) {
+								const file = files[fileId]!
 								const totalMb = (file.size / (1024 * 1024)).toFixed(2)
 
 								// Format size display using pretty-bytes
@@ -413,8 +538,19 @@ const main = defineCommand({
 									percentage: "0.0"
 								})
 								activeProgressBars.set(fileId, { bar, startTime: null })
-							})
+							}
+						}
 
+						console.log(`\n📩 Incoming transfer request from ${senderInfo.alias}:`)
+						fileIds.forEach((fileId, index) => {
+							const file = files[fileId]!
+							console.log(`  ${index + 1}. ${file.fileName} (${prettyBytes(file.size)})`)
+						})
+
+						// If autoAccept is enabled, skip confirmation and accept transfer automatically
+						if (args.autoAccept as boolean) {
+							console.log("Auto-accepting transfer...")
+							createProgressBars(fileIds)
 							console.log("Downloading...")
 							return true
 						}
@@ -425,150 +561,115 @@ const main = defineCommand({
 							output: process.stdout
 						})
 
-						// Prompt for confirmation
+						// Prompt for confirmation. Besides y/N the user can tick individual
+						// files by number, and only those are accepted.
 						try {
-							const accept = await new Promise<boolean>((resolve) => {
-								rl.question("Accept transfer? (y/N): ", (answer) => {
-									// Ensure the answer is displayed on the same line as the prompt
-									resolve(answer.toLowerCase() === "y")
+							const answer = await new Promise<string>((resolve) => {
+								const prompt =
+									fileIds.length > 1
+										? "Accept transfer? (y = all, N = none, or file numbers like 1,3): "
+										: "Accept transfer? (y/N): "
+								rl.question(prompt, (answer) => {
+									resolve(answer)
 									rl.close()
 								})
 							})
 
-							if (!accept) {
+							const decision = parseFileSelection(answer, fileIds)
+							if (decision.length === 0) {
 								console.log("Transfer rejected")
 								return false
 							}
 
-							// Create progress bars for each file when transfer is accepted
-							Object.entries(files).forEach(([fileId, file]) => {
-								const totalMb = (file.size / (1024 * 1024)).toFixed(2)
+							createProgressBars(decision)
 
-								// Format size display using pretty-bytes
-								const sizeDisplay = `${prettyBytes(0)}/${prettyBytes(file.size)}`
-
-								const bar = multiBar.create(file.size, 0, {
-									filename:
-										file.fileName.length > 25
-											? file.fileName.substring(0, 22) + "..."
-											: file.fileName.padEnd(25),
-									receivedMb: "0.00",
-									totalMb,
-									sizeDisplay,
-									speed: "0 B/s",
-									eta: "?",
-									percentage: "0.0"
-								})
-								activeProgressBars.set(fileId, { bar, startTime: null })
-							})
-
-							console.log("Transfer accepted, downloading...")
-							return true
+							if (decision.length === fileIds.length) {
+								console.log("Transfer accepted, downloading...")
+								return true
+							}
+							console.log(`Accepted ${decision.length} of ${fileIds.length} files, downloading...`)
+							return decision
 						} catch (error) {
 							console.error("Error getting user input:", error)
 							rl.close()
 							return false
 						}
-					},
-					onTransferProgress: async (
-						fileId: string,
-						fileName: string,
-						received: number,
-						total: number,
-						speed: number,
-						finished?: boolean,
-						transferInfo?: {
-							filePath: string
-							totalTimeSeconds: number
-							averageSpeed: number
-						}
-					) => {
-						const progressBar = activeProgressBars.get(fileId)
-						if (progressBar) {
-							const receivedMb = (received / (1024 * 1024)).toFixed(2)
-							const totalMb = (total / (1024 * 1024)).toFixed(2)
-
-							// For large files, show progress in GB if applicable
-							const sizeDisplay = `${prettyBytes(received)}/${prettyBytes(total)}`
-
-							// Format speed with appropriate units
-							const speedText = `${prettyBytes(speed)}/s`
-
-							// Calculate ETA in seconds
-							const remaining = total - received
-							const eta = speed > 0 ? Math.ceil(remaining / speed) : 0
-
-							// Format ETA nicely for longer transfers
-							let etaDisplay
-							if (eta > 3600) {
-								etaDisplay = `${Math.floor(eta / 3600)}h ${Math.floor((eta % 3600) / 60)}m`
-							} else if (eta > 60) {
-								etaDisplay = `${Math.floor(eta / 60)}m ${eta % 60}s`
-							} else {
-								etaDisplay = `${eta}s`
-							}
+					}
+				})
 
-							// Calculate percentage (handle division by zero)
-							const percentage = total > 0 ? Math.min(100, (received / total) * 100) : 0
-
-							// Update progress bar
-							progressBar.bar.update(received, {
-								receivedMb,
-								totalMb,
-								sizeDisplay,
-								speed: speedText,
-								eta: eta ? etaDisplay : "?",
-								percentage: percentage.toFixed(1)
-							})
+				// Progress arrives throttled, with smoothed speed and ETA already worked out
+				server.on("fileProgress", ({ fileId, received, file, speed, etaSeconds }) => {
+					const progressBar = activeProgressBars.get(fileId)
+					if (!progressBar) return
+					const total = file.size
+					// Calculate percentage (handle division by zero)
+					const percentage = total > 0 ? Math.min(100, (received / total) * 100) : 0
+
+					progressBar.bar.update(received, {
+						receivedMb: (received / (1024 * 1024)).toFixed(2),
+						totalMb: (total / (1024 * 1024)).toFixed(2),
+						sizeDisplay: `${prettyBytes(received)}/${prettyBytes(total)}`,
+						speed: `${prettyBytes(speed)}/s`,
+						eta: formatEta(etaSeconds),
+						percentage: percentage.toFixed(1)
+					})
+				})
 
-							// When complete, mark with checkmark
-							if (received >= total) {
-								progressBar.bar.update(total, {
-									sizeDisplay,
-									speed: `✓ ${speedText}`,
-									eta: "0s"
-								})
-							}
+				server.on("fileCompleted", async (event) => {
+					const { fileId, file, filePath, totalTimeSeconds, averageSpeed, verified } = event
+					const total = file.size
+					const progressBar = activeProgressBars.get(fileId)
 
-							// Print transfer summary if finished
-							if (finished && transferInfo) {
-								const { filePath, totalTimeSeconds, averageSpeed } = transferInfo
-
-								// Format size and speed using pretty-bytes
-								const sizeStr = prettyBytes(total)
-								const speedStr = `${prettyBytes(averageSpeed)}/s`
-
-								// Format time
-								let timeStr = ""
-								if (totalTimeSeconds >= 3600) {
-									const hours = Math.floor(totalTimeSeconds / 3600)
-									const minutes = Math.floor((totalTimeSeconds % 3600) / 60)
-									const seconds = Math.floor(totalTimeSeconds % 60)
-									timeStr = `${hours}h ${minutes}m ${seconds}s`
-								} else if (totalTimeSeconds >= 60) {
-									const minutes = Math.floor(totalTimeSeconds / 60)
-									const seconds = Math.floor(totalTimeSeconds % 60)
-									timeStr = `${minutes}m ${seconds}s`
-								} else {
-									timeStr = `${Math.floor(totalTimeSeconds)}s`
-								}
-
-								// flush stdout
-								process.stdout.write("\n")
-								await new Promise((resolve) => setTimeout(resolve, 100))
-								// Print transfer summary in table format
-								// Reset cursor position
-								console.log("\n✅ Transfer complete:")
-								console.table({
-									File: fileName,
-									Size: `${sizeStr} (${total.toLocaleString()} bytes)`,
-									"Saved to": filePath,
-									Time: timeStr,
-									"Average speed": speedStr
-								})
-							}
-						}
+					if (event.skipped) {
+						progressBar?.bar.update(total, {
+							sizeDisplay: prettyBytes(total),
+							speed: "skipped",
+							eta: "0s"
+						})
+						console.log(`\n↷ Skipped ${file.fileName}: kept existing ${filePath}`)
+						return
+					}
+					if (!progressBar) return
+
+					// Format size and speed using pretty-bytes
+					const sizeStr = prettyBytes(total)
+					const speedStr = `${prettyBytes(averageSpeed)}/s`
+
+					// Mark the bar done with a checkmark
+					progressBar.bar.update(total, {
+						sizeDisplay: `${sizeStr}/${sizeStr}`,
+						speed: `✓ ${speedStr}`,
+						eta: "0s"
+					})
+
+					// Format time
+					let timeStr = ""
+					if (totalTimeSeconds >= 3600) {
+						const hours = Math.floor(totalTimeSeconds / 3600)
+						const minutes = Math.floor((totalTimeSeconds % 3600) / 60)
+						const seconds = Math.floor(totalTimeSeconds % 60)
+						timeStr = `${hours}h ${minutes}m ${seconds}s`
+					} else if (totalTimeSeconds >= 60) {
+						const minutes = Math.floor(totalTimeSeconds / 60)
+						const seconds = Math.floor(totalTimeSeconds % 60)
+						timeStr = `${minutes}m ${seconds}s`
+					} else {
+						timeStr = `${Math.floor(totalTimeSeconds)}s`
 					}
+
+					// flush stdout
+					process.stdout.write("\n")
+					await new Promise((resolve) => setTimeout(resolve, 100))
+					// Print transfer summary in table format
+					console.log("\n✅ Transfer complete:")
+					console.table({
+						File: file.fileName,
+						Size: `${sizeStr} (${total.toLocaleString()} bytes)`,
+						"Saved to": filePath,
+						Time: timeStr,
+						"Average speed": speedStr,
+						"SHA-256": verified ? "✓ verified" : "not provided by sender"
+					})
 				})
 
 				await server.start()
@@ -633,6 +734,164 @@ const main = defineCommand({
 				})
 			}
 		}),
+		download: defineCommand({
+			meta: {
+				name: "download",
+				description: "List or download the files another device is sharing"
+			},
+			args: {
+				target: {
+					type: "positional",
+					description: "IP address or alias of the sharing device",
+					required: true
+				},
+				out: {
+					type: "string",
+					description: "Directory to save the files in",
+					default: "./downloads"
+				},
+				only: {
+					type: "string",
+					description:
+						"Download only files matching these comma-separated patterns, e.g. '*.jpg,docs/**'"
+				},
+				list: {
+					type: "boolean",
+					description: "List the shared files without downloading them",
+					default: false
+				},
+				pin: {
+					type: "string",
+					description: "PIN for authentication (if required)"
+				},
+				alias: {
+					type: "string",
+					description: "Custom device alias (default: TypeScript Downloader)",
+					default: "TypeScript Downloader"
+				},
+				port: {
+					type: "string",
+					description: "Port of the sharing device (default: 53317)"
+				},
+				protocol: {
+					type: "string",
+					description: "Protocol to use (http or https; default: whichever answers)"
+				},
+				timeout: {
+					type: "string",
+					description: "Seconds to search for a device given by alias",
+					default: "5"
+				}
+			},
+			async run({ args }) {
+				const portString = args.port as string | undefined
+				const deviceInfo = getDeviceInfo({
+					alias: args.alias as string,
+					port: portString ? parseInt(portString, 10) : undefined
+				})
+				const client = new LocalSendClient(deviceInfo)
+				const abort = new AbortController()
+				process.once("SIGINT", () => abort.abort())
+
+				let target = { ip: args.target as string, port: deviceInfo.port }
+				if (!isIP(target.ip)) {
+					console.log(`Looking for '${target.ip}'...`)
+					const timeout = parseInt(args.timeout as string, 10) * 1000
+					const found = await findDeviceByAlias(deviceInfo, target.ip, timeout)
+					if (!found) {
+						console.error(`❌ No device named '${target.ip}' found`)
+						process.exit(1)
+					}
+					target = { ip: found.ip!, port: portString ? target.port : found.port }
+				}
+
+				const sharer = await client
+					.getDeviceInfo(
+						{ ...target, protocol: args.protocol as "http" | "https" | undefined },
+						abort.signal
+					)
+					.catch((err: LocalSendError) => {
+						console.error(`Failed to reach ${target.ip}: ${err.message}`)
+						process.exit(err.kind === "aborted" ? 130 : 1)
+					})
+				const targetDevice = { ...target, protocol: sharer.protocol }
+				const pin = args.pin as string | undefined
+				const only = args.only as string | undefined
+				const selected = (file: FileMetadata) => !only || matchesPatterns(file.fileName, only)
+				const fail = (err: LocalSendError): never => {
+					console.error(
+						err.kind === "aborted" ? "Canceled" : `❌ ${sharer.alias} refused: ${err.message}`
+					)
+					process.exit(err.kind === "aborted" ? 130 : 1)
+				}
+
+				if (args.list) {
+					const { files } = await client
+						.prepareDownload(targetDevice, pin, abort.signal)
+						.catch(fail)
+					const listed = Object.values(files ?? {}).filter(selected)
+					if (listed.length === 0) {
+						console.log(`${sharer.alias} is not sharing ${only ? "matching files" : "anything"}`)
+						process.exit(0)
+					}
+					console.log(
+						`${sharer.alias} is sharing ${listed.length} file${listed.length === 1 ? "" : "s"}:\n`
+					)
+					for (const file of listed) {
+						console.log(`  ${file.fileName}  (${prettyBytes(file.size)}, ${file.fileType})`)
+					}
+					process.exit(0)
+				}
+
+				const outDir = args.out as string
+				console.log(`Downloading from ${sharer.alias} into ${outDir}...`)
+				const bars = createFileBars()
+				const results = await client
+					.downloadAll(targetDevice, outDir, {
+						pin,
+						filter: selected,
+						signal: abort.signal,
+						onProgress: ({ fileId, fileName, bytesReceived, totalBytes, speed }) =>
+							bars.update(fileId, fileName, bytesReceived, totalBytes, speed),
+						onFileResult: (result) => {
+							if (result.status === "downloaded") bars.finish(result.fileId, "✓ saved", true)
+							if (result.status === "failed") bars.finish(result.fileId, "✗ failed", false)
+						}
+					})
+					.catch((err: LocalSendError) => {
+						bars.stop()
+						return fail(err)
+					})
+				bars.stop()
+
+				const downloaded = results.filter((r) => r.status === "downloaded")
+				if (abort.signal.aborted) {
+					console.error(
+						`Canceled after downloading ${downloaded.length} of ${results.length} files`
+					)
+					process.exit(130)
+				}
+				for (const result of results) {
+					if (result.status === "failed") {
+						console.log(`  ✗ ${result.fileName}: ${result.error?.message}`)
+					}
+				}
+				if (results.length === 0) {
+					console.error(
+						`Nothing to download: ${sharer.alias} shares no ${only ? "matching " : ""}files`
+					)
+					process.exit(1)
+				}
+				const count = `${downloaded.length} of ${results.length} file${results.length === 1 ? "" : "s"}`
+				if (downloaded.length < results.length) {
+					console.error(`❌ Downloaded ${count}`)
+					process.exit(1)
+				}
+				console.log(`✅ Downloaded ${count}`)
+				// Exit here, or citty would go on to run the bare command (the TUI).
+				process.exit(0)
+			}
+		}),
 		discover: defineCommand({
 			meta: {
 				name: "discover",
@@ -799,18 +1058,28 @@ const main = defineCommand({
 			)
 			if (args.tui) process.exit(1)
 			console.log("")
-			console.log("Or use a CLI subcommand: send | receive | discover")
+			console.log("Or use a CLI subcommand: send | receive | download | discover")
 			console.log("  localsend send 192.168.1.100 ./file.txt")
 			console.log("  localsend receive --saveDir ./downloads")
+			console.log("  localsend download 192.168.1.100 --only '*.jpg'")
 			console.log("  localsend discover --timeout 10")
 			return
 		}
+		const collisionPolicy = args.onCollision as CollisionPolicy | undefined
+		if (collisionPolicy && !COLLISION_POLICIES.includes(collisionPolicy)) {
+			console.error(
+				`Invalid --onCollision value '${collisionPolicy}', expected one of: ${COLLISION_POLICIES.join(", ")}`
+			)
+			process.exit(1)
+		}
 		const { runTui } = await import("./cli-tui.tsx")
 		const portStr = args.port as string | undefined
 		runTui({
 			alias: args.alias as string | undefined,
 			port: portStr ? parseInt(portStr, 10) : undefined,
 			saveDir: args.saveDir as string | undefined,
+			collisionPolicy,
+			pin: args.pin as string | undefined,
 			https: args.https as boolean
 		})
 	}
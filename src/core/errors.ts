@@ -0,0 +1,102 @@
+/**
+ * Why a client request failed:
+ * - `rejected`: the receiver declined the transfer or the token (403)
+ * - `pinRequired`: a PIN is needed, or the one given was wrong (401)
+ * - `pinLockout`: too many wrong PINs from this address (429)
+ * - `busy`: the receiver is in another session, or canceled this one (409)
+ * - `tooLarge`: the file exceeds the receiver's limit or free space (413, 507)
+ * - `network`: the device could not be reached or dropped the connection
+ * - `tls`: the HTTPS handshake failed
+ * - `timeout`: the request was aborted by a timeout signal
+ * - `aborted`: the caller aborted the request
+ * - `integrity`: a download's size or sha256 did not match what the sender declared
+ * - `http`: any other error status; see `status`
+ */
+export type LocalSendErrorKind =
+	| "rejected"
+	| "pinRequired"
+	| "pinLockout"
+	| "busy"
+	| "tooLarge"
+	| "network"
+	| "tls"
+	| "timeout"
+	| "aborted"
+	| "integrity"
+	| "http"
+
+const statusKinds: Record<number, LocalSendErrorKind> = {
+	401: "pinRequired",
+	403: "rejected",
+	409: "busy",
+	413: "tooLarge",
+	429: "pinLockout",
+	507: "tooLarge"
+}
+
+/** Certificate and handshake failures, as Bun and Node name them. */
+const TLS_CODE = /CERT|TLS|SSL/
+
+/** A failed LocalSendClient request, with a message fit to show the user as-is. */
+export class LocalSendError extends Error {
+	constructor(
+		public readonly kind: LocalSendErrorKind,
+		message: string,
+		/** HTTP status of the response, when the peer answered. */
+		public readonly status: number | null = null,
+		options?: { cause?: unknown }
+	) {
+		super(message, options)
+		this.name = "LocalSendError"
+	}
+
+	/** Map an error response. `pinSent` tells a wrong PIN apart from a missing one. */
+	static fromStatus(status: number, pinSent = false): LocalSendError {
+		const kind = statusKinds[status] ?? "http"
+		switch (kind) {
+			case "pinRequired":
+				return new LocalSendError(
+					kind,
+					pinSent ? "Wrong PIN — try again" : "The receiver requires a PIN",
+					status
+				)
+			case "pinLockout":
+				return new LocalSendError(kind, "Too many wrong PINs — try again later", status)
+			case "rejected":
+				return new LocalSendError(kind, "The receiver declined the transfer", status)
+			case "busy":
+				return new LocalSendError(kind, "The receiver is busy with another transfer", status)
+			case "tooLarge":
+				return new LocalSendError(kind, "Too large for the receiver to accept", status)
+			default:
+				return new LocalSendError(kind, `HTTP ${status}`, status)
+		}
+	}
+
+	/** Map anything fetch or a file read threw. LocalSendErrors pass through unchanged. */
+	static from(err: unknown, signal?: AbortSignal): LocalSendError {
+		if (err instanceof LocalSendError) return err
+		const detail = err instanceof Error ? err.message : String(err)
+		const name = (err as { name?: string } | null)?.name
+		if (name === "TimeoutError" || (signal?.aborted && signal.reason?.name === "TimeoutError")) {
+			return new LocalSendError("timeout", "The device did not respond in time", null, {
+				cause: err
+			})
+		}
+		if (signal?.aborted || name === "AbortError") {
+			return new LocalSendError("aborted", "Canceled", null, { cause: err })
+		}
+		const code = String(
+			(err as { code?: unknown } | null)?.code ??
+				((err as { cause?: { code?: unknown } } | null)?.cause?.code || "")
+		)
+		if (TLS_CODE.test(code)) {
+			return new LocalSendError("tls", `Secure connection failed: ${detail}`, null, {
+				cause: err
+			})
+		}
+		return new LocalSendError("network", `Could not reach the device: ${detail}`, null, {
+			cause: err
+		})
+	}
+}
@@ -2,10 +2,11 @@ import { Buffer } from "node:buffer"
 import { createHash, randomBytes } from "node:crypto"
 import { createReadStream } from "node:fs"
 import { existsSync } from "node:fs"
-import { stat } from "node:fs/promises"
+import { link, open, readdir, rename, stat, statfs, unlink, utimes } from "node:fs/promises"
 import path from "node:path"
 import type { FileMetadata } from "../protocol/types.ts"
 import { safeJoinReceivePath } from "../utils/path-safety.ts"
+import { detectMimeType, detectMimeTypeFromBytes } from "./mime.ts"
 
 export type StagedFile = { fileId: string; metadata: FileMetadata; absolutePath: string }
 
@@ -45,6 +46,165 @@ export function uniqueSavePath(saveDir: string, fileName: string): string {
 	return candidate
 }
 
+/**
+ * Move a finished temp file to `fileName` in saveDir, or to `name (1).ext`,
+ * `name (2).ext`, ... when that is taken. Unlike uniqueSavePath followed by a
+ * rename, the name is claimed atomically: a hard link fails if the name exists,
+ * so two files finishing together never land on (and replace) the same name.
+ * Where hard links are unsupported, the name is claimed by creating it
+ * exclusively and then replaced. Traversal-safe via resolveSavePath.
+ */
+export async function moveToUniquePath(
+	tempPath: string,
+	saveDir: string,
+	fileName: string
+): Promise<string> {
+	const resolved = resolveSavePath(saveDir, fileName)
+	const dir = path.dirname(resolved)
+	const ext = path.extname(resolved)
+	const stem = path.basename(resolved, ext)
+	for (let i = 0; ; i++) {
+		const candidate = i === 0 ? resolved : path.join(dir, `${stem} (${i})${ext}`)
+		try {
+			await link(tempPath, candidate)
+		} catch (err) {
+			const code = (err as NodeJS.ErrnoException).code
+			if (code === "EEXIST") continue
+			if (code === "ENOENT") throw err
+			try {
+				await (await open(candidate, "wx")).close()
+			} catch (openErr) {
+				if ((openErr as NodeJS.ErrnoException).code === "EEXIST") continue
+				throw openErr
+			}
+			await rename(tempPath, candidate).catch(async (renameErr) => {
+				await unlink(candidate).catch(() => {})
+				throw renameErr
+			})
+			return candidate
+		}
+		await unlink(tempPath)
+		return candidate
+	}
+}
+
+/**
+ * What to do when an incoming file's name is already taken in the save directory:
+ * - `rename`: save as `name (1).ext`, `name (2).ext`, ... (the default)
+ * - `overwrite`: replace the existing file
+ * - `skip-if-identical`: keep the existing file when its size and sha256 match the
+ *   incoming metadata, otherwise rename
+ * - `ask`: defer to a callback that answers with a CollisionResolution
+ */
+export type CollisionPolicy = "rename" | "overwrite" | "skip-if-identical" | "ask"
+
+export type CollisionResolution = "rename" | "overwrite" | "skip"
+
+/**
+ * True when `existingPath` is a regular file with the declared size and sha256.
+ * Without a declared sha256 nothing can be proven identical, so this is false.
+ */
+export async function isIdenticalFile(existingPath: string, file: FileMetadata): Promise<boolean> {
+	if (!file.sha256) return false
+	const stats = await stat(existingPath).catch(() => null)
+	if (!stats?.isFile() || stats.size !== file.size) return false
+	return (await computeSha256FromFile(existingPath)) === file.sha256.toLowerCase()
+}
+
+/** Suffix of the hidden temp files an upload streams into before it is renamed into place. */
+export const PARTIAL_FILE_SUFFIX = ".localsend-part"
+
+/** Most filesystems cap a single path component at 255 bytes. */
+const MAX_NAME_BYTES = 255
+
+/**
+ * Hidden temp path next to `targetPath`. Living in the same directory keeps the
+ * final rename atomic (same filesystem), and the leading dot plus suffix keep
+ * folder watchers from treating a half-written upload as a real file. The
+ * target's name is shortened as needed so the temp name still fits whenever
+ * the target's does.
+ */
+export function partialSavePath(targetPath: string): string {
+	const dir = path.dirname(targetPath)
+	const nonce = randomBytes(4).toString("hex")
+	const extra = Buffer.byteLength(`..${nonce}${PARTIAL_FILE_SUFFIX}`)
+	const name = truncateUtf8(path.basename(targetPath), MAX_NAME_BYTES - extra)
+	return path.join(dir, `.${name}.${nonce}${PARTIAL_FILE_SUFFIX}`)
+}
+
+/** The longest prefix of `text` that is at most `maxBytes` in UTF-8, cut between characters. */
+function truncateUtf8(text: string, maxBytes: number): string {
+	if (Buffer.byteLength(text) <= maxBytes) return text
+	let bytes = 0
+	let end = 0
+	for (const char of text) {
+		bytes += Buffer.byteLength(char)
+		if (bytes > maxBytes) break
+		end += char.length
+	}
+	return text.slice(0, end)
+}
+
+/**
+ * Delete temp files left behind by uploads that never finished (e.g. the
+ * process crashed mid-transfer). Walks saveDir recursively, since uploads may
+ * land in sub-folders. Only files untouched for `olderThanMs` are removed, so
+ * uploads still being written by another process sharing saveDir survive.
+ * Returns the removed paths.
+ */
+export async function cleanupPartialFiles(saveDir: string, olderThanMs = 0): Promise<string[]> {
+	const cutoff = Date.now() - olderThanMs
+	const removed: string[] = []
+	const walk = async (dir: string): Promise<void> => {
+		const entries = await readdir(dir, { withFileTypes: true }).catch(() => [])
+		for (const entry of entries) {
+			const entryPath = path.join(dir, entry.name)
+			if (entry.isDirectory()) {
+				await walk(entryPath)
+			} else if (entry.name.startsWith(".") && entry.name.endsWith(PARTIAL_FILE_SUFFIX)) {
+				const stats = await stat(entryPath).catch(() => null)
+				if (!stats || stats.mtimeMs > cutoff) continue
+				await unlink(entryPath).then(
+					() => removed.push(entryPath),
+					() => {}
+				)
+			}
+		}
+	}
+	await walk(saveDir)
+	return removed
+}
+
+/** Reports the bytes available to this process on the filesystem holding `dir`. */
+export type FreeSpaceProvider = (dir: string) => Promise<number>
+
+export const getFreeSpace: FreeSpaceProvider = async (dir) => {
+	const stats = await statfs(dir)
+	// bavail, not bfree: blocks reserved for root are not ours to fill.
+	return stats.bavail * stats.bsize
+}
+
+/**
+ * Apply the sender's `modified`/`accessed` timestamps (ISO strings from
+ * FileMetadata.metadata) to a saved file. A missing or unparseable value keeps
+ * the file's current time for that field; with neither usable this is a no-op.
+ */
+export async function applyFileTimestamps(
+	filePath: string,
+	metadata: FileMetadata["metadata"]
+): Promise<void> {
+	const parse = (value: string | null | undefined): Date | undefined => {
+		if (!value) return undefined
+		const date = new Date(value)
+		return Number.isNaN(date.getTime()) ? undefined : date
+	}
+	const modified = parse(metadata?.modified)
+	const accessed = parse(metadata?.accessed)
+	if (!modified && !accessed) return
+	const current = await stat(filePath)
+	await utimes(filePath, accessed ?? current.atime, modified ?? current.mtime)
+}
+
 // ---- moved verbatim from src/utils/file.ts ----
 export function createFileId(seed?: string): string {
 	if (seed) return createHash("md5").update(seed).digest("hex")
@@ -74,17 +234,20 @@ export async function buildFileMetadataFromPath(
 		preview?: string
 		metadata?: { modified?: string; accessed?: string }
 		computeSha256?: boolean
+		/** Leave sha256 unset for files larger than this many bytes. */
+		hashLimit?: number
 	} = {}
 ): Promise<{ fileId: string; fileMetadata: FileMetadata }> {
 	const fileStats = await stat(filePath)
 	const fileId = options.fileId ?? createFileId(filePath)
 	const fileName = options.fileName ?? path.basename(filePath)
-	const fileType = options.fileType ?? "application/octet-stream"
+	const fileType = options.fileType ?? (await detectMimeType(filePath))
 	const metadata = options.metadata ?? {
 		modified: fileStats.mtime?.toISOString(),
 		accessed: fileStats.atime?.toISOString()
 	}
-	const sha256 = options.computeSha256 === false ? undefined : await computeSha256FromFile(filePath)
+	const hash = options.computeSha256 !== false && fileStats.size <= (options.hashLimit ?? Infinity)
+	const sha256 = hash ? await computeSha256FromFile(filePath) : undefined
 	const fileMetadata: FileMetadata = {
 		id: fileId,
 		fileName,
@@ -109,7 +272,7 @@ export function buildFileMetadataFromBytes(
 ): { fileId: string; fileMetadata: FileMetadata } {
 	const buffer = Buffer.from(payload)
 	const fileId = options.fileId ?? createFileId()
-	const fileType = options.fileType ?? "application/octet-stream"
+	const fileType = options.fileType ?? detectMimeTypeFromBytes(options.fileName, buffer)
 	const metadata = options.metadata ?? { modified: new Date().toISOString() }
 	const fileMetadata: FileMetadata = {
 		id: fileId,
@@ -123,6 +286,39 @@ export function buildFileMetadataFromBytes(
 	return { fileId, fileMetadata }
 }
 
+/** A file picked for sending, with the name the receiver should save it under. */
+export type SendEntry = { absolutePath: string; fileName: string }
+
+/**
+ * Expand files and directories into the files to send. A directory's files are
+ * named relative to its parent, with forward slashes (`album/2026/a.jpg`), so
+ * the receiver rebuilds the tree. Symlinks inside directories are not followed;
+ * a path reached twice is sent once, under the first name found.
+ */
+export async function collectSendFiles(paths: string[]): Promise<SendEntry[]> {
+	const entries = new Map<string, SendEntry>()
+	const add = (entry: SendEntry) => {
+		if (!entries.has(entry.absolutePath)) entries.set(entry.absolutePath, entry)
+	}
+	const walk = async (dir: string, prefix: string): Promise<void> => {
+		const children = await readdir(dir, { withFileTypes: true })
+		children.sort((a, b) => a.name.localeCompare(b.name))
+		for (const child of children) {
+			const childPath = path.join(dir, child.name)
+			const fileName = `${prefix}/${child.name}`
+			if (child.isDirectory()) await walk(childPath, fileName)
+			else if (child.isFile()) add({ absolutePath: childPath, fileName })
+		}
+	}
+	for (const input of paths) {
+		const absolutePath = path.resolve(input)
+		const stats = await stat(absolutePath)
+		if (stats.isDirectory()) await walk(absolutePath, path.basename(absolutePath))
+		else add({ absolutePath, fileName: path.basename(absolutePath) })
+	}
+	return [...entries.values()]
+}
+
 export async function stageFile(filePath: string): Promise<StagedFile> {
 	const { fileId, fileMetadata } = await buildFileMetadataFromPath(filePath)
 	return { fileId, metadata: fileMetadata, absolutePath: path.resolve(filePath) }
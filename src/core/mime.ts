@@ -0,0 +1,191 @@
+import { open } from "node:fs/promises"
+import path from "node:path"
+
+/** The type for anything neither table nor sniffing recognizes. */
+export const OCTET_STREAM = "application/octet-stream"
+
+const EXTENSION_TYPES: Record<string, string> = {
+	// images
+	apng: "image/apng",
+	avif: "image/avif",
+	bmp: "image/bmp",
+	gif: "image/gif",
+	heic: "image/heic",
+	heif: "image/heif",
+	ico: "image/x-icon",
+	jpeg: "image/jpeg",
+	jpg: "image/jpeg",
+	png: "image/png",
+	svg: "image/svg+xml",
+	tif: "image/tiff",
+	tiff: "image/tiff",
+	webp: "image/webp",
+	// video
+	"3gp": "video/3gpp",
+	avi: "video/x-msvideo",
+	m4v: "video/x-m4v",
+	mkv: "video/x-matroska",
+	mov: "video/quicktime",
+	mp4: "video/mp4",
+	mpeg: "video/mpeg",
+	mpg: "video/mpeg",
+	webm: "video/webm",
+	wmv: "video/x-ms-wmv",
+	// audio
+	aac: "audio/aac",
+	flac: "audio/flac",
+	m4a: "audio/mp4",
+	mid: "audio/midi",
+	midi: "audio/midi",
+	mp3: "audio/mpeg",
+	oga: "audio/ogg",
+	ogg: "audio/ogg",
+	opus: "audio/opus",
+	wav: "audio/wav",
+	weba: "audio/webm",
+	// documents
+	csv: "text/csv",
+	doc: "application/msword",
+	docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	epub: "application/epub+zip",
+	htm: "text/html",
+	html: "text/html",
+	md: "text/markdown",
+	odp: "application/vnd.oasis.opendocument.presentation",
+	ods: "application/vnd.oasis.opendocument.spreadsheet",
+	odt: "application/vnd.oasis.opendocument.text",
+	pdf: "application/pdf",
+	ppt: "application/vnd.ms-powerpoint",
+	pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+	rtf: "application/rtf",
+	txt: "text/plain",
+	xls: "application/vnd.ms-excel",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	// code and data
+	css: "text/css",
+	js: "text/javascript",
+	json: "application/json",
+	log: "text/plain",
+	mjs: "text/javascript",
+	xml: "application/xml",
+	yaml: "application/yaml",
+	yml: "application/yaml",
+	// archives and packages
+	"7z": "application/x-7z-compressed",
+	apk: "application/vnd.android.package-archive",
+	bz2: "application/x-bzip2",
+	dmg: "application/x-apple-diskimage",
+	gz: "application/gzip",
+	iso: "application/x-iso9660-image",
+	jar: "application/java-archive",
+	rar: "application/vnd.rar",
+	tar: "application/x-tar",
+	xz: "application/x-xz",
+	zip: "application/zip"
+}
+
+/** Bytes read from the start of a file for sniffing; enough for every signature below. */
+const SNIFF_BYTES = 512
+
+/** MIME type implied by the file name's extension, or null when it has no known one. */
+export function mimeFromExtension(fileName: string): string | null {
+	const ext = path.extname(fileName).slice(1).toLowerCase()
+	return EXTENSION_TYPES[ext] ?? null
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+	bytes.length >= offset + signature.length &&
+	signature.every((byte, i) => bytes[offset + i] === byte)
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string =>
+	String.fromCharCode(...bytes.subarray(start, end))
+
+/** ISO base media files (MP4, MOV, HEIC, ...) by their `ftyp` major brand. */
+function sniffFtyp(bytes: Uint8Array): string | null {
+	if (ascii(bytes, 4, 8) !== "ftyp") return null
+	const brand = ascii(bytes, 8, 12)
+	if (brand === "qt  ") return "video/quicktime"
+	if (brand === "M4A ") return "audio/mp4"
+	if (brand === "heic" || brand === "heix") return "image/heic"
+	if (brand === "mif1" || brand === "msf1") return "image/heif"
+	if (brand === "avif") return "image/avif"
+	if (brand.startsWith("3gp")) return "video/3gpp"
+	return "video/mp4"
+}
+
+/** Control characters other than tab, newline, form feed and carriage return. */
+const BINARY_CONTROL = /[\x00-\x08\x0b\x0e-\x1f\x7f]/
+
+/**
+ * MIME type from a file's first bytes (its magic number), or null when the
+ * signature is unknown. Valid UTF-8 free of control characters counts as text.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+	if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+	if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif"
+	if (ascii(bytes, 0, 4) === "RIFF") {
+		const form = ascii(bytes, 8, 12)
+		if (form === "WEBP") return "image/webp"
+		if (form === "WAVE") return "audio/wav"
+		if (form === "AVI ") return "video/x-msvideo"
+	}
+	// "BM" plus the four reserved header bytes, which are always zero.
+	if (startsWith(bytes, [0x42, 0x4d]) && startsWith(bytes, [0, 0, 0, 0], 6)) return "image/bmp"
+	if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+		return "image/tiff"
+	}
+	if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon"
+	const ftyp = sniffFtyp(bytes)
+	if (ftyp) return ftyp
+	if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/x-matroska"
+	if (ascii(bytes, 0, 3) === "ID3" || startsWith(bytes, [0xff, 0xfb])) return "audio/mpeg"
+	if (ascii(bytes, 0, 4) === "fLaC") return "audio/flac"
+	if (ascii(bytes, 0, 4) === "OggS") return "audio/ogg"
+	if (ascii(bytes, 0, 4) === "MThd") return "audio/midi"
+	if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf"
+	if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return "application/zip"
+	if (startsWith(bytes, [0x1f, 0x8b])) return "application/gzip"
+	if (startsWith(bytes, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return "application/x-7z-compressed"
+	if (ascii(bytes, 0, 6) === "Rar!\x1a\x07") return "application/vnd.rar"
+	if (startsWith(bytes, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])) return "application/x-xz"
+	if (ascii(bytes, 0, 3) === "BZh") return "application/x-bzip2"
+	if (ascii(bytes, 257, 262) === "ustar") return "application/x-tar"
+	if (bytes.length > 0 && isText(bytes)) return "text/plain"
+	return null
+}
+
+function isText(bytes: Uint8Array): boolean {
+	try {
+		// `stream` tolerates a multi-byte character cut off at the end of the sample.
+		const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true })
+		return !BINARY_CONTROL.test(text)
+	} catch {
+		return false
+	}
+}
+
+/** Type of in-memory content named `fileName`: extension first, then its bytes. */
+export function detectMimeTypeFromBytes(fileName: string, bytes: Uint8Array): string {
+	return (
+		mimeFromExtension(fileName) ?? sniffMimeType(bytes.subarray(0, SNIFF_BYTES)) ?? OCTET_STREAM
+	)
+}
+
+/**
+ * Type of the file at `filePath`: the extension table when it knows the
+ * extension, otherwise a sniff of the first bytes, otherwise octet-stream.
+ * Only reads the file when the extension is unknown.
+ */
+export async function detectMimeType(filePath: string): Promise<string> {
+	const fromExtension = mimeFromExtension(filePath)
+	if (fromExtension) return fromExtension
+	const handle = await open(filePath, "r")
+	try {
+		const buffer = new Uint8Array(SNIFF_BYTES)
+		const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0)
+		return sniffMimeType(buffer.subarray(0, bytesRead)) ?? OCTET_STREAM
+	} finally {
+		await handle.close()
+	}
+}
@@ -0,0 +1,100 @@
+import { createHash, timingSafeEqual } from "node:crypto"
+
+export interface PinGuardOptions {
+	/** Wrong PINs allowed per address within `windowMs` before it is locked out (default: 5). */
+	maxAttempts?: number
+	/** How long failures are remembered (default: 60s). */
+	windowMs?: number
+	/** How long a locked-out address is refused, even with the right PIN (default: 5 min). */
+	lockoutMs?: number
+}
+
+/** Reported for every wrong PIN so the UI can warn that someone is guessing. */
+export interface PinFailure {
+	/** Address of the guessing client, or null when the runtime doesn't expose it. */
+	ip: string | null
+	/** Wrong PINs from this address within the current window; always 1 when `ip` is null. */
+	attempts: number
+	/** Epoch ms until which this address is locked out, when this failure triggered a lockout. */
+	lockedUntil: number | null
+}
+
+export type PinCheck =
+	| { ok: true }
+	| { ok: false; reason: "missing" }
+	| { ok: false; reason: "invalid"; failure: PinFailure }
+	| { ok: false; reason: "locked"; retryAfterMs: number }
+
+type AttemptRecord = { attempts: number; windowStart: number; lockedUntil: number }
+
+/** Compare two PINs in constant time; hashing first hides the length as well. */
+export function pinsMatch(attempt: string, pin: string): boolean {
+	const a = createHash("sha256").update(attempt).digest()
+	const b = createHash("sha256").update(pin).digest()
+	return timingSafeEqual(a, b)
+}
+
+/**
+ * Per-address PIN attempt tracking. A missing PIN is not a guess (clients probe
+ * without one to learn that a PIN is needed), so only wrong PINs count. Clients
+ * whose address is unknown are not tracked: lumped together, a few wrong
+ * guesses from anyone would lock every sender out.
+ */
+export class PinGuard {
+	private records = new Map<string, AttemptRecord>()
+	private maxAttempts: number
+	private windowMs: number
+	private lockoutMs: number
+
+	constructor(
+		options: PinGuardOptions = {},
+		private now: () => number = Date.now
+	) {
+		this.maxAttempts = options.maxAttempts ?? 5
+		this.windowMs = options.windowMs ?? 60_000
+		this.lockoutMs = options.lockoutMs ?? 300_000
+	}
+
+	check(ip: string | null, attempt: string | undefined, pin: string): PinCheck {
+		const now = this.now()
+		this.purgeStale(now)
+		const record = ip === null ? undefined : this.records.get(ip)
+
+		if (record && record.lockedUntil > now) {
+			return { ok: false, reason: "locked", retryAfterMs: record.lockedUntil - now }
+		}
+		if (!attempt) return { ok: false, reason: "missing" }
+		if (pinsMatch(attempt, pin)) {
+			if (ip !== null) this.records.delete(ip)
+			return { ok: true }
+		}
+		if (ip === null) {
+			return { ok: false, reason: "invalid", failure: { ip, attempts: 1, lockedUntil: null } }
+		}
+
+		const current =
+			record && now - record.windowStart <= this.windowMs
+				? record
+				: { attempts: 0, windowStart: now, lockedUntil: 0 }
+		current.attempts++
+		if (current.attempts >= this.maxAttempts) current.lockedUntil = now + this.lockoutMs
+		this.records.set(ip, current)
+		return {
+			ok: false,
+			reason: "invalid",
+			failure: {
+				ip,
+				attempts: current.attempts,
+				lockedUntil: current.lockedUntil > now ? current.lockedUntil : null
+			}
+		}
+	}
+
+	private purgeStale(now: number): void {
+		for (const [key, record] of this.records) {
+			if (record.lockedUntil <= now && now - record.windowStart > this.windowMs) {
+				this.records.delete(key)
+			}
+		}
+	}
+}
@@ -0,0 +1,200 @@
+export interface ProgressOptions {
+	/** Minimum time between reports for one file, in ms (default: 250). 0 reports every chunk. */
+	intervalMs?: number
+	/** Weight of the newest sample in the smoothed speed, between 0 and 1 (default: 0.3). */
+	smoothing?: number
+}
+
+export interface TransferProgress {
+	received: number
+	total: number
+	/** Smoothed bytes per second. */
+	speed: number
+	/** Seconds left at the current speed, or null while the speed is still unknown. */
+	etaSeconds: number | null
+}
+
+export interface SessionProgress extends TransferProgress {
+	/** Accepted files that finished, including ones kept by the collision policy. */
+	filesCompleted: number
+	filesTotal: number
+}
+
+export interface ProgressReport {
+	file: TransferProgress
+	session: SessionProgress
+}
+
+/** Speed samples closer together than this are too noisy to feed the average. */
+const MIN_SAMPLE_MS = 100
+
+/** Exponential moving average of a byte counter's rate. */
+class SpeedMeter {
+	private speed = 0
+	private sampled = false
+	private startAt: number
+	private lastAt: number
+	private lastBytes = 0
+
+	constructor(
+		now: number,
+		private smoothing: number
+	) {
+		this.startAt = now
+		this.lastAt = now
+	}
+
+	sample(bytes: number, now: number): number {
+		const dt = now - this.lastAt
+		if (dt >= MIN_SAMPLE_MS) {
+			const rate = ((bytes - this.lastBytes) * 1000) / dt
+			this.speed = this.sampled ? this.smoothing * rate + (1 - this.smoothing) * this.speed : rate
+			this.sampled = true
+			this.lastAt = now
+			this.lastBytes = bytes
+		}
+		if (this.sampled) return this.speed
+		// Until the first full sample, the plain average is the best guess.
+		const elapsed = now - this.startAt
+		return elapsed > 0 ? (bytes * 1000) / elapsed : 0
+	}
+}
+
+type FileState = {
+	total: number
+	received: number
+	done: boolean
+	meter: SpeedMeter | null
+	lastReportAt: number
+}
+
+const eta = (remaining: number, speed: number): number | null =>
+	remaining <= 0 ? 0 : speed > 0 ? remaining / speed : null
+
+/**
+ * Progress bookkeeping for one upload session. Feeds on every chunk but only
+ * produces a report once per `intervalMs` for each file (and always for the
+ * chunk that finishes it), with smoothed speed and ETA for the file and for
+ * the session as a whole.
+ */
+export class ProgressAggregator {
+	private files = new Map<string, FileState>()
+	private sessionMeter: SpeedMeter | null = null
+	/** Bytes actually streamed; kept files count toward progress but not speed. */
+	private transferred = 0
+	private intervalMs: number
+	private smoothing: number
+
+	constructor(
+		/** Declared size of every accepted file, by file id. */
+		sizes: Record<string, number>,
+		options: ProgressOptions = {},
+		private now: () => number = Date.now
+	) {
+		this.intervalMs = options.intervalMs ?? 250
+		this.smoothing = options.smoothing ?? 0.3
+		for (const [fileId, total] of Object.entries(sizes)) {
+			this.files.set(fileId, { total, received: 0, done: false, meter: null, lastReportAt: 0 })
+		}
+	}
+
+	/** A file began streaming; its speed is measured from here. */
+	start(fileId: string): void {
+		const file = this.files.get(fileId)
+		if (!file) return
+		const now = this.now()
+		this.transferred -= file.received
+		file.received = 0
+		file.meter = new SpeedMeter(now, this.smoothing)
+		file.lastReportAt = now
+		this.sessionMeter ??= new SpeedMeter(now, this.smoothing)
+	}
+
+	/** Record `received` bytes for a file. Returns a report when one is due, else null. */
+	update(fileId: string, received: number): ProgressReport | null {
+		const file = this.files.get(fileId)
+		if (!file) return null
+		const now = this.now()
+		this.transferred += received - file.received
+		file.received = received
+		const finished = received >= file.total
+		if (finished) file.done = true
+		if (!finished && now - file.lastReportAt < this.intervalMs) return null
+		file.lastReportAt = now
+		return this.report(file, now)
+	}
+
+	/** Count a file as finished, e.g. one skipped without streaming its bytes. */
+	complete(fileId: string): void {
+		const file = this.files.get(fileId)
+		if (!file) return
+		file.received = file.total
+		file.done = true
+	}
+
+	private report(file: FileState, now: number): ProgressReport {
+		const fileSpeed = file.meter?.sample(file.received, now) ?? 0
+		const sessionSpeed = this.sessionMeter?.sample(this.transferred, now) ?? 0
+		let received = 0
+		let total = 0
+		let filesCompleted = 0
+		for (const f of this.files.values()) {
+			received += f.received
+			total += f.total
+			if (f.done) filesCompleted++
+		}
+		return {
+			file: {
+				received: file.received,
+				total: file.total,
+				speed: fileSpeed,
+				etaSeconds: eta(file.total - file.received, fileSpeed)
+			},
+			session: {
+				received,
+				total,
+				speed: sessionSpeed,
+				etaSeconds: eta(total - received, sessionSpeed),
+				filesCompleted,
+				filesTotal: this.files.size
+			}
+		}
+	}
+}
+
+/**
+ * Pass `source` through unchanged, reporting the bytes pulled from it with a
+ * smoothed speed at most once per `intervalMs`. Used as a request body, it is
+ * pulled only as the connection drains, so the count tracks bytes actually
+ * leaving (give or take the socket buffer).
+ */
+export function meterStream(
+	source: ReadableStream<Uint8Array>,
+	onProgress: (bytes: number, speed: number) => void,
+	options: { intervalMs?: number; now?: () => number } = {}
+): ReadableStream<Uint8Array> {
+	const now = options.now ?? Date.now
+	const intervalMs = options.intervalMs ?? 100
+	const meter = new SpeedMeter(now(), 0.3)
+	let bytes = 0
+	let reported = 0
+	let lastReportAt = now()
+	return source.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				controller.enqueue(chunk)
+				bytes += chunk.byteLength
+				const t = now()
+				const speed = meter.sample(bytes, t)
+				if (t - lastReportAt < intervalMs) return
+				lastReportAt = t
+				reported = bytes
+				onProgress(bytes, speed)
+			},
+			// The final count is always reported, even when it fell inside an interval.
+			flush() {
+				if (bytes !== reported || bytes === 0) onProgress(bytes, meter.sample(bytes, now()))
+			}
+		})
+	)
+}
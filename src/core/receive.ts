@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto"
+import { Readable, Transform, type Writable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import type { ReadableStream as NodeReadableStream } from "node:stream/web"
+
+/** The body carried more bytes than the file's declared size. */
+export class UploadSizeExceededError extends Error {
+	constructor(public readonly expectedSize: number) {
+		super(`Upload exceeds declared file size of ${expectedSize} bytes`)
+		this.name = "UploadSizeExceededError"
+	}
+}
+
+export interface ReceiveResult {
+	/** Bytes that reached the sink. */
+	received: number
+	/** Lowercase hex sha256 of those bytes. */
+	sha256: string
+}
+
+/**
+ * Pipe an upload body into `sink`, hashing and counting on the way.
+ *
+ * Runs as a stream pipeline, so reading from the socket pauses whenever the
+ * sink's buffer is full and memory stays bounded no matter how slow the disk
+ * is. Chunks are passed through as-is rather than copied. Rejects with
+ * UploadSizeExceededError (after canceling the body) once more than
+ * `expectedSize` bytes arrive; a short body resolves and is left to the caller.
+ */
+export async function receiveToSink(
+	body: ReadableStream<Uint8Array>,
+	sink: Writable,
+	options: {
+		expectedSize: number
+		onProgress?: (received: number) => void
+		/** Aborting destroys the pipeline and cancels the body; the promise rejects. */
+		signal?: AbortSignal
+	}
+): Promise<ReceiveResult> {
+	const hash = createHash("sha256")
+	let received = 0
+
+	const meter = new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			received += chunk.length
+			if (received > options.expectedSize) {
+				callback(new UploadSizeExceededError(options.expectedSize))
+				return
+			}
+			hash.update(chunk)
+			options.onProgress?.(received)
+			callback(null, chunk)
+		}
+	})
+
+	// The DOM and node:stream/web declarations of ReadableStream don't overlap.
+	const source = Readable.fromWeb(body as unknown as NodeReadableStream<Uint8Array>)
+	await pipeline(source, meter, sink, { signal: options.signal })
+	return { received, sha256: hash.digest("hex") }
+}
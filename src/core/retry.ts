@@ -0,0 +1,68 @@
+import { LocalSendError } from "./errors.ts"
+
+export interface RetryPolicy {
+	/** Tries per request, the first one included (default: 3). 1 turns retrying off. */
+	attempts?: number
+	/** Wait before the first retry, doubled for each one after it (default: 500 ms). */
+	baseDelayMs?: number
+	/** Cap on the wait between tries (default: 8 s). */
+	maxDelayMs?: number
+	/** Whether a failure is worth another try (default: isTransient). */
+	retryable?: (error: LocalSendError) => boolean
+}
+
+/** Dropped connections, TLS hiccups and timeouts; anything the peer answered is final. */
+export function isTransient(error: LocalSendError): boolean {
+	return error.kind === "network" || error.kind === "tls" || error.kind === "timeout"
+}
+
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+	return {
+		attempts: Math.max(1, policy.attempts ?? 3),
+		baseDelayMs: policy.baseDelayMs ?? 500,
+		maxDelayMs: policy.maxDelayMs ?? 8_000,
+		retryable: policy.retryable ?? isTransient
+	}
+}
+
+/** Wait before retry number `retry` (1-based). Rejects as aborted if `signal` fires first. */
+export function backoff(
+	policy: Required<RetryPolicy>,
+	retry: number,
+	signal?: AbortSignal
+): Promise<void> {
+	const ms = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1))
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) return reject(LocalSendError.from(signal.reason, signal))
+		const onAbort = () => {
+			clearTimeout(timer)
+			reject(LocalSendError.from(signal!.reason, signal))
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort)
+			resolve()
+		}, ms)
+		signal?.addEventListener("abort", onAbort, { once: true })
+	})
+}
+
+/**
+ * Run `request` until it succeeds, fails in a way the policy calls final, or
+ * runs out of attempts. Only LocalSendErrors are retried; anything else (a
+ * missing local file, say) is thrown straight away.
+ */
+export async function withRetry<T>(
+	policy: Required<RetryPolicy>,
+	request: () => Promise<T>,
+	signal?: AbortSignal
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await request()
+		} catch (err) {
+			if (!(err instanceof LocalSendError)) throw err
+			if (attempt >= policy.attempts || signal?.aborted || !policy.retryable(err)) throw err
+			await backoff(policy, attempt, signal)
+		}
+	}
+}
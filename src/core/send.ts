@@ -4,73 +4,185 @@ import type {
 	PrepareDownloadResponse,
 	FileMetadata
 } from "../protocol/types.ts"
-import { createReadStream } from "node:fs"
-import { stat, unlink } from "node:fs/promises"
-import { Readable } from "node:stream"
+import { createWriteStream } from "node:fs"
+import { mkdir, unlink } from "node:fs/promises"
+import path from "node:path"
+import {
+	buildFileMetadataFromBytes,
+	buildFileMetadataFromPath,
+	collectSendFiles,
+	createFileId,
+	moveToUniquePath,
+	partialSavePath,
+	resolveSavePath,
+	type SendEntry
+} from "./files.ts"
+import { LocalSendError } from "./errors.ts"
+import { meterStream } from "./progress.ts"
+import { receiveToSink, UploadSizeExceededError } from "./receive.ts"
+import { backoff, resolveRetryPolicy, withRetry, type RetryPolicy } from "./retry.ts"
+import {
+	createSendSource,
+	isReplayable,
+	openSource,
+	SourceSizeError,
+	type SendSource
+} from "./source.ts"
+
+export interface SendFilesOptions {
+	pin?: string
+	/** Files uploaded at the same time (default: 3). */
+	concurrency?: number
+	/** Files hashed at the same time before the transfer is offered (default: 4). */
+	hashConcurrency?: number
+	/**
+	 * Offer files larger than this many bytes without a sha256. Saves reading each
+	 * one twice, but the receiver cannot verify them (default: hash every file).
+	 */
+	hashLimit?: number
+	/** Byte-level progress of each upload, throttled per file. */
+	onFileProgress?: (progress: SendFileProgress) => void
+	/** Called as each file settles, in completion order. */
+	onFileResult?: (result: SendFileResult) => void
+	/** Aborting stops hashing and every upload, and cancels the session on the receiver. */
+	signal?: AbortSignal
+}
+
+export interface SendFileProgress {
+	fileId: string
+	fileName: string
+	bytesUploaded: number
+	totalBytes: number
+	/** Smoothed bytes per second. */
+	speed: number
+}
+
+export interface SendFileResult {
+	/** Absolute path of the local file. */
+	path: string
+	/** Name sent to the receiver, relative for files inside a directory. */
+	fileName: string
+	fileId: string
+	/**
+	 * - `sent`: uploaded and stored by the receiver
+	 * - `declined`: the receiver accepted the transfer without this file
+	 * - `failed`: the transfer was refused or the upload failed; see `error`
+	 * - `canceled`: the send was aborted before this file finished
+	 */
+	status: "sent" | "declined" | "failed" | "canceled"
+	error?: LocalSendError
+}
+
+export interface DownloadAllOptions {
+	pin?: string
+	/** Which of the offered files to fetch (default: all of them). */
+	filter?: (file: FileMetadata) => boolean
+	/** Files downloaded at the same time (default: 3). */
+	concurrency?: number
+	/** Byte-level progress of each download, throttled per file. */
+	onProgress?: (progress: DownloadFileProgress) => void
+	/** Called as each file settles, in completion order. */
+	onFileResult?: (result: DownloadFileResult) => void
+	/** Aborting stops every download; unfinished files come back as `canceled`. */
+	signal?: AbortSignal
+}
+
+export interface DownloadFileProgress {
+	fileId: string
+	fileName: string
+	bytesReceived: number
+	totalBytes: number
+	/** Smoothed bytes per second. */
+	speed: number
+}
+
+export interface DownloadFileResult {
+	fileId: string
+	/** Name the sender offered, relative for files inside a shared folder. */
+	fileName: string
+	/** Where the file was saved, once `downloaded`. */
+	path?: string
+	/**
+	 * - `downloaded`: saved under `path`, its size checked, and its sha256 too
+	 *   when the sender declared one (`verified`)
+	 * - `failed`: the download or the check failed; see `error`
+	 * - `canceled`: the download was aborted before this file finished
+	 */
+	status: "downloaded" | "failed" | "canceled"
+	verified?: boolean
+	/** A LocalSendError for anything the sender or the check caused; local errors as they are. */
+	error?: Error
+}
 
+/**
+ * Upload progress for one file. `bytesUploaded` counts bytes handed to the
+ * connection; `speed` is a smoothed bytes per second while uploading and the
+ * average over the whole upload once `finished`.
+ */
+export type UploadProgressCallback = (
+	bytesUploaded: number,
+	totalBytes: number,
+	finished: boolean,
+	speed: number
+) => void
+
+function integrityError(file: FileMetadata, how: "longer" | "shorter"): LocalSendError {
+	return new LocalSendError(
+		"integrity",
+		`${file.fileName}: the download is ${how} than the declared ${file.size} bytes`
+	)
+}
+
+/**
+ * Client side of the LocalSend protocol. Every request method rejects with a
+ * LocalSendError when it fails; local file errors (a missing path, say) are
+ * thrown as they are. Preparing and uploading are retried per `retry`.
+ */
 export class LocalSendClient {
-	private progressCallback:
-		| ((bytesUploaded: number, totalBytes: number, finished: boolean) => void)
-		| null = null
+	private progressCallback: UploadProgressCallback | null = null
 	private allowInsecureTls =
 		process.env.LOCALSEND_INSECURE_TLS === undefined
 			? true
 			: process.env.LOCALSEND_INSECURE_TLS === "1"
-	private lastError: string | null = null
+	private retry: Required<RetryPolicy>
 
-	constructor(private deviceInfo: DeviceInfo) {
+	constructor(
+		private deviceInfo: DeviceInfo,
+		options: { retry?: RetryPolicy } = {}
+	) {
 		// Client will be created on-demand when making requests
+		this.retry = resolveRetryPolicy(options.retry)
 	}
 
 	/**
 	 * Set a callback to track upload progress
 	 */
-	setProgressCallback(
-		callback: (bytesUploaded: number, totalBytes: number, finished: boolean) => void
-	): void {
+	setProgressCallback(callback: UploadProgressCallback): void {
 		this.progressCallback = callback
 	}
 
-	/**
-	 * The reason the most recent prepareUpload/uploadFile failed, if any. Lets
-	 * callers surface a real diagnostic (HTTP status, TLS error, connection refused)
-	 * instead of a generic "failed" string. Reset at the start of each such call.
-	 */
-	getLastError(): string | null {
-		return this.lastError
-	}
-
-	private describeError(err: unknown): string {
-		return err instanceof Error ? err.message : String(err)
-	}
-
 	/**
 	 * Register with another device (discovery)
 	 */
-	async register(targetDevice: {
-		ip: string
-		port: number
-		protocol?: "http" | "https"
-	}): Promise<DeviceInfo | null> {
-		try {
-			const device = await this.requestJson<DeviceInfo>(
-				targetDevice,
-				"/api/localsend/v2/register",
-				{
-					method: "POST",
-					body: {
-						...this.deviceInfo,
-						deviceModel: this.deviceInfo.deviceModel || "",
-						deviceType: this.deviceInfo.deviceType || "desktop"
-					}
-				}
-			)
+	async register(
+		targetDevice: {
+			ip: string
+			port: number
+			protocol?: "http" | "https"
+		},
+		signal?: AbortSignal
+	): Promise<DeviceInfo> {
+		const device = await this.requestJson<DeviceInfo>(targetDevice, "/api/localsend/v2/register", {
+			method: "POST",
+			body: {
+				...this.deviceInfo,
+				deviceModel: this.deviceInfo.deviceModel || "",
+				deviceType: this.deviceInfo.deviceType || "desktop"
+			},
+			signal
+		})
 
-			return this.normalizeDeviceInfo(device, targetDevice)
-		} catch (err) {
-			console.error("Error registering with device:", err)
-			return null
-		}
+		return this.normalizeDeviceInfo(device, targetDevice)
 	}
 
 	/**
@@ -79,121 +191,342 @@ export class LocalSendClient {
 	async prepareUpload(
 		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
 		files: Record<string, FileMetadata>,
-		pin?: string
-	): Promise<PrepareUploadResponse | null> {
-		try {
-			this.lastError = null
-			// Ensure the data conforms to the expected types
-			const deviceInfo = {
-				...this.deviceInfo,
-				deviceModel: this.deviceInfo.deviceModel || "",
-				deviceType: this.deviceInfo.deviceType || ("desktop" as const)
-			}
-
-			// Convert files object to format expected by SDK
-			// by removing null values (replacing with undefined)
-			const convertedFiles: Record<string, any> = {}
-
-			Object.entries(files).forEach(([key, file]) => {
-				convertedFiles[key] = {
-					id: file.id,
-					fileName: file.fileName,
-					size: file.size,
-					fileType: file.fileType,
-					sha256: file.sha256 === null ? undefined : file.sha256,
-					preview: file.preview === null ? undefined : file.preview,
-					metadata:
-						file.metadata === null
-							? undefined
-							: {
-									modified: file.metadata?.modified === null ? undefined : file.metadata?.modified,
-									accessed: file.metadata?.accessed === null ? undefined : file.metadata?.accessed
-								}
-				}
-			})
-
-			const result = await this.requestWithStatus<PrepareUploadResponse>(
-				targetDevice,
-				"/api/localsend/v2/prepare-upload",
-				{
-					method: "POST",
-					body: {
-						info: deviceInfo,
-						files: convertedFiles
-					},
-					query: pin ? { pin } : undefined
-				}
-			)
+		pin?: string,
+		signal?: AbortSignal
+	): Promise<PrepareUploadResponse> {
+		// Ensure the data conforms to the expected types
+		const deviceInfo = {
+			...this.deviceInfo,
+			deviceModel: this.deviceInfo.deviceModel || "",
+			deviceType: this.deviceInfo.deviceType || ("desktop" as const)
+		}
 
-			if (!result) {
-				return null
+		// Convert files object to format expected by SDK
+		// by removing null values (replacing with undefined)
+		const convertedFiles: Record<string, any> = {}
+
+		Object.entries(files).forEach(([key, file]) => {
+			convertedFiles[key] = {
+				id: file.id,
+				fileName: file.fileName,
+				size: file.size,
+				fileType: file.fileType,
+				sha256: file.sha256 === null ? undefined : file.sha256,
+				preview: file.preview === null ? undefined : file.preview,
+				metadata:
+					file.metadata === null
+						? undefined
+						: {
+								modified: file.metadata?.modified === null ? undefined : file.metadata?.modified,
+								accessed: file.metadata?.accessed === null ? undefined : file.metadata?.accessed
+							}
 			}
-
-			if (result.status === 204) {
-				return {
-					sessionId: "",
-					files: {}
-				}
+		})
+
+		const result = await withRetry(
+			this.retry,
+			() =>
+				this.requestWithStatus<PrepareUploadResponse>(
+					targetDevice,
+					"/api/localsend/v2/prepare-upload",
+					{
+						method: "POST",
+						body: {
+							info: deviceInfo,
+							files: convertedFiles
+						},
+						query: pin ? { pin } : undefined,
+						signal
+					}
+				),
+			signal
+		)
+
+		if (result.status === 204 || !result.data) {
+			return {
+				sessionId: "",
+				files: {}
 			}
-
-			return result.data
-		} catch (err) {
-			this.lastError = this.describeError(err)
-			console.error("Error preparing upload:", err)
-			return null
 		}
+
+		return result.data
 	}
 
 	/**
-	 * Upload a file to the receiver.
+	 * Upload a file to the receiver, from a path or any SendSource.
 	 *
 	 * Sends the entire file as a single POST body, as the LocalSend protocol
-	 * requires (no chunking, no non-standard range headers).
+	 * requires (no chunking, no non-standard range headers). Only connection
+	 * errors are retried, with the same token, which helps only when the upload
+	 * never reached the receiver: one that saw it fail ends the session, and
+	 * the retry then gets 404. sendFiles prepares a new session instead. A
+	 * stream source is read once, so its upload is not retried. Aborting
+	 * `signal` stops reading the content and cancels the session on the receiver.
 	 */
 	async uploadFile(
 		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
 		sessionId: string,
 		fileId: string,
 		fileToken: string,
-		filePath: string
-	): Promise<boolean> {
+		file: string | SendSource,
+		signal?: AbortSignal
+	): Promise<void> {
+		const source = typeof file === "string" ? await createSendSource(file) : file
+		const { size } = source
+		const retry = isReplayable(source) ? this.retry : { ...this.retry, attempts: 1 }
+		const onProgress = this.progressCallback
+		const start = Date.now()
+		let sent = 0
+		onProgress?.(0, size, false, 0)
 		try {
-			this.lastError = null
-			const stats = await stat(filePath)
-			const url = `${targetDevice.protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/upload?sessionId=${sessionId}&fileId=${fileId}&token=${fileToken}`
+			await withRetry(
+				retry,
+				() =>
+					this.postFile(
+						targetDevice,
+						sessionId,
+						fileId,
+						fileToken,
+						source,
+						(bytes, speed) => {
+							sent = bytes
+							onProgress?.(bytes, size, false, speed)
+						},
+						signal
+					),
+				signal
+			)
+		} catch (err) {
+			if (signal?.aborted) await this.cancelSession(targetDevice, sessionId).catch(() => {})
+			throw err
+		} finally {
+			const elapsed = (Date.now() - start) / 1000
+			onProgress?.(sent, size, true, elapsed > 0 ? sent / elapsed : 0)
+		}
+	}
 
-			if (this.progressCallback) this.progressCallback(0, stats.size, false)
+	/**
+	 * Send files and whole directories in one transfer: a prepare-upload
+	 * covering every file, then uploads of the accepted ones, `concurrency` at a
+	 * time. Files inside a directory keep their relative path as `fileName`.
+	 *
+	 * Files that fail transiently, or whose session the receiver no longer knows
+	 * (it expired, or an earlier failure ended it), are prepared again and re-sent
+	 * in another round, up to the retry policy's attempts. Files the receiver
+	 * already confirmed are never sent twice. Returns one result per file, in the
+	 * order the files were collected.
+	 */
+	async sendFiles(
+		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
+		paths: string[],
+		options: SendFilesOptions = {}
+	): Promise<SendFileResult[]> {
+		const { signal } = options
+		const collected = (await collectSendFiles(paths)).map((entry) => ({
+			entry,
+			fileId: createFileId()
+		}))
+
+		// Hash a few files at a time: parallel for speed, but bounded so a large
+		// folder doesn't open every file at once. Results keep the collected order.
+		const hashed: { entry: SendEntry; fileId: string; fileMetadata: FileMetadata }[] = []
+		let nextToHash = 0
+		const hasher = async () => {
+			while (nextToHash < collected.length && !signal?.aborted) {
+				const index = nextToHash++
+				const { entry, fileId } = collected[index]!
+				const { fileMetadata } = await buildFileMetadataFromPath(entry.absolutePath, {
+					fileName: entry.fileName,
+					fileId,
+					hashLimit: options.hashLimit
+				})
+				hashed[index] = { entry, fileId, fileMetadata }
+			}
+		}
+		const hashConcurrency = Math.max(1, options.hashConcurrency ?? 4)
+		await Promise.all(Array.from({ length: Math.min(hashConcurrency, collected.length) }, hasher))
+		const prepared = hashed.filter(Boolean)
+
+		const results = new Map<string, SendFileResult>()
+		const settle = (result: SendFileResult) => {
+			results.set(result.fileId, result)
+			options.onFileResult?.(result)
+		}
+		const base = (fileId: string, entry: SendEntry) => ({
+			path: entry.absolutePath,
+			fileName: entry.fileName,
+			fileId
+		})
+		const cancelAll = (items: { fileId: string; entry: SendEntry }[]) => {
+			for (const { fileId, entry } of items) settle({ ...base(fileId, entry), status: "canceled" })
+		}
 
-			const fetchOptions: any = {
-				method: "POST",
-				headers: { "Content-Length": stats.size.toString() }
+		if (signal?.aborted) {
+			cancelAll(collected)
+			return collected.map(({ fileId }) => results.get(fileId)!)
+		}
+
+		const { onFileProgress } = options
+		let pending = prepared
+		for (let round = 1; pending.length > 0; round++) {
+			if (round > 1) {
+				try {
+					await backoff(this.retry, round - 1, signal)
+				} catch {
+					cancelAll(pending)
+					break
+				}
 			}
 
-			// Bun's fetch streams `Bun.file(...)` directly without buffering the
-			// whole file in memory, avoiding known issues with web-stream request
-			// bodies under Bun's fetch implementation. Other runtimes (Node) use a
-			// web ReadableStream built from a Node read stream with duplex: "half".
-			const isBun = typeof (globalThis as any).Bun !== "undefined"
-			if (isBun) {
-				fetchOptions.body = (globalThis as any).Bun.file(filePath)
-			} else {
-				const nodeStream = createReadStream(filePath)
-				const webStream = Readable.toWeb(nodeStream) as unknown as ReadableStream
-				fetchOptions.body = webStream
-				fetchOptions.duplex = "half"
+			let session: PrepareUploadResponse
+			try {
+				const files = Object.fromEntries(pending.map((p) => [p.fileId, p.fileMetadata]))
+				session = await this.prepareUpload(targetDevice, files, options.pin, signal)
+			} catch (err) {
+				const error = LocalSendError.from(err, signal)
+				if (error.kind === "aborted") {
+					cancelAll(pending)
+					break
+				}
+				for (const { fileId, entry } of pending) {
+					settle({ ...base(fileId, entry), status: "failed", error })
+				}
+				break
 			}
 
-			this.applyTlsOptions(fetchOptions, targetDevice.protocol)
-			const response = await fetch(url, fetchOptions)
+			const { sessionId, files: tokens } = session
+			const queue = pending.filter(({ fileId, entry }) => {
+				if (tokens?.[fileId]) return true
+				settle({ ...base(fileId, entry), status: "declined" })
+				return false
+			})
+			const again: typeof pending = []
+			const worker = async () => {
+				for (let next = queue.shift(); next; next = queue.shift()) {
+					const { fileId, entry, fileMetadata } = next
+					if (signal?.aborted) {
+						settle({ ...base(fileId, entry), status: "canceled" })
+						continue
+					}
+					try {
+						await this.postFile(
+							targetDevice,
+							sessionId,
+							fileId,
+							tokens[fileId]!,
+							{
+								kind: "path",
+								path: entry.absolutePath,
+								fileName: entry.fileName,
+								size: fileMetadata.size
+							},
+							onFileProgress &&
+								((bytesUploaded, speed) =>
+									onFileProgress({
+										fileId,
+										fileName: entry.fileName,
+										bytesUploaded,
+										totalBytes: fileMetadata.size,
+										speed
+									})),
+							signal
+						)
+						settle({ ...base(fileId, entry), status: "sent" })
+					} catch (err) {
+						const error = LocalSendError.from(err, signal)
+						if (signal?.aborted) {
+							settle({ ...base(fileId, entry), status: "canceled" })
+						} else if (
+							round < this.retry.attempts &&
+							(this.retry.retryable(error) || error.status === 404)
+						) {
+							again.push(next)
+						} else {
+							settle({ ...base(fileId, entry), status: "failed", error })
+						}
+					}
+				}
+			}
+			const concurrency = Math.max(1, options.concurrency ?? 3)
+			await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+			// Tell the receiver to drop the session rather than wait for the rest.
+			// Before a retry round, too: a receiver that allows one session per
+			// sender (like the official app) answers the next prepare with 409
+			// while this one is still open.
+			if ((signal?.aborted || again.length > 0) && sessionId) {
+				await this.cancelSession(targetDevice, sessionId).catch(() => {})
+			}
+			pending = again
+		}
 
-			if (this.progressCallback) this.progressCallback(stats.size, stats.size, true)
-			if (!response.ok) this.lastError = `HTTP ${response.status}`
-			return response.ok
+		return collected.map(({ fileId }) => results.get(fileId)!)
+	}
+
+	/** POST one source as an upload body. */
+	private async postFile(
+		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
+		sessionId: string,
+		fileId: string,
+		fileToken: string,
+		source: SendSource,
+		onProgress?: (bytes: number, speed: number) => void,
+		signal?: AbortSignal
+	): Promise<void> {
+		const url = `${targetDevice.protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/upload?sessionId=${sessionId}&fileId=${fileId}&token=${fileToken}`
+
+		// Counting bytes as fetch pulls them gives real progress, since the body
+		// is only pulled as the socket drains.
+		const body = openSource(source)
+		const fetchOptions: any = {
+			method: "POST",
+			headers: { "Content-Length": source.size.toString() },
+			body: onProgress ? meterStream(body, onProgress) : body,
+			duplex: "half",
+			signal
+		}
+
+		this.applyTlsOptions(fetchOptions, targetDevice.protocol)
+		try {
+			await this.fetchOk(url, fetchOptions)
 		} catch (err) {
-			this.lastError = this.describeError(err)
-			console.error("Error uploading file:", err)
-			return false
+			// The source's own fault, not the connection's: surface it as-is.
+			if (err instanceof LocalSendError && err.cause instanceof SourceSizeError) throw err.cause
+			throw err
+		}
+	}
+
+	/**
+	 * Send a text message. The text travels inline as the `preview` of a single
+	 * text/plain file, so nothing touches disk. A receiver that recognizes
+	 * messages answers 204 with no tokens, which counts as delivered; one that
+	 * issues a token anyway gets the text uploaded from memory.
+	 */
+	async sendMessage(
+		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
+		text: string,
+		pin?: string,
+		signal?: AbortSignal
+	): Promise<void> {
+		const payload = Buffer.from(text, "utf8")
+		const { fileId, fileMetadata } = buildFileMetadataFromBytes(payload, {
+			fileName: "message.txt",
+			fileType: "text/plain",
+			preview: text
+		})
+
+		const prepared = await this.prepareUpload(targetDevice, { [fileId]: fileMetadata }, pin, signal)
+		const token = prepared.files?.[fileId]
+		if (!token) return
+
+		const url = `${targetDevice.protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/upload?sessionId=${prepared.sessionId}&fileId=${fileId}&token=${token}`
+		const fetchOptions: any = {
+			method: "POST",
+			headers: { "Content-Length": payload.length.toString() },
+			body: payload,
+			signal
 		}
+		this.applyTlsOptions(fetchOptions, targetDevice.protocol)
+		await withRetry(this.retry, () => this.fetchOk(url, fetchOptions), signal)
 	}
 
 	/**
@@ -201,110 +534,212 @@ export class LocalSendClient {
 	 */
 	async prepareDownload(
 		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
-		pin?: string
-	): Promise<PrepareDownloadResponse | null> {
-		try {
-			return await this.requestJson<PrepareDownloadResponse>(
-				targetDevice,
-				"/api/localsend/v2/prepare-download",
-				{ method: "POST", query: pin ? { pin } : undefined }
-			)
-		} catch (err) {
-			console.error("Error preparing download:", err)
-			return null
-		}
+		pin?: string,
+		signal?: AbortSignal
+	): Promise<PrepareDownloadResponse> {
+		return withRetry(
+			this.retry,
+			() =>
+				this.requestJson<PrepareDownloadResponse>(
+					targetDevice,
+					"/api/localsend/v2/prepare-download",
+					{ method: "POST", query: pin ? { pin } : undefined, signal }
+				),
+			signal
+		)
 	}
 
 	/**
 	 * Download a file from the sender, streaming the response body to disk.
+	 * A partially written file is removed when the download fails.
 	 */
 	async download(
 		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
 		sessionId: string,
 		fileId: string,
-		outPath: string
-	): Promise<boolean> {
-		try {
-			const { createWriteStream } = await import("node:fs")
-			const protocol = targetDevice.protocol || "http"
-			const url = `${protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/download?sessionId=${sessionId}&fileId=${fileId}`
-			const fetchOptions: any = { method: "GET" }
-			this.applyTlsOptions(fetchOptions, protocol)
-			const res = await fetch(url, fetchOptions)
-			if (!res.ok || !res.body) return false
-
-			const out = createWriteStream(outPath)
-			const reader = res.body.getReader()
-			try {
-				await new Promise<void>((resolve, reject) => {
-					out.on("error", reject)
-					const pump = (): void => {
-						reader
-							.read()
-							.then(({ done, value }) => {
-								if (done) {
-									out.end()
-									return
-								}
-								if (!out.write(value)) {
-									out.once("drain", pump)
-								} else {
-									pump()
-								}
-							})
-							.catch(reject)
-					}
-					out.on("finish", () => resolve())
-					pump()
-				})
-			} finally {
-				reader.releaseLock()
-			}
+		outPath: string,
+		signal?: AbortSignal
+	): Promise<void> {
+		const protocol = targetDevice.protocol || "http"
+		const url = `${protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/download?sessionId=${sessionId}&fileId=${fileId}`
+		const fetchOptions: any = { method: "GET", signal }
+		this.applyTlsOptions(fetchOptions, protocol)
+		const res = await this.fetchOk(url, fetchOptions)
+		if (!res.body) throw LocalSendError.fromStatus(res.status)
 
-			return true
+		const out = createWriteStream(outPath)
+		const reader = res.body.getReader()
+		try {
+			await new Promise<void>((resolve, reject) => {
+				out.on("error", reject)
+				const pump = (): void => {
+					reader
+						.read()
+						.then(({ done, value }) => {
+							if (done) {
+								out.end()
+								return
+							}
+							if (!out.write(value)) {
+								out.once("drain", pump)
+							} else {
+								pump()
+							}
+						})
+						.catch((err) => reject(LocalSendError.from(err, signal)))
+				}
+				out.on("finish", () => resolve())
+				pump()
+			})
 		} catch (err) {
-			console.error("Error downloading file:", err)
 			// Best-effort cleanup: don't leave a partially-written file on disk
 			// if the stream errored mid-transfer.
+			out.destroy()
 			await unlink(outPath).catch(() => {})
-			return false
+			throw err
+		} finally {
+			reader.releaseLock()
 		}
 	}
 
 	/**
-	 * Cancel an ongoing session
+	 * Download everything a peer shares (or what `filter` picks) into
+	 * `destDir`, `concurrency` files at a time. Files are named as the sender
+	 * offered them, sub-folders included, and renamed to `name (1).ext` rather
+	 * than replace a local file; names that would escape `destDir` fail.
+	 *
+	 * Each file streams into a hidden partial file that is checked against the
+	 * declared size and sha256 and only then renamed into place, so a failed,
+	 * corrupt or canceled download leaves nothing behind. Rejects when
+	 * prepare-download fails; otherwise returns one result per selected file, in
+	 * the order the sender listed them.
 	 */
-	async cancelSession(
+	async downloadAll(
+		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
+		destDir: string,
+		options: DownloadAllOptions = {}
+	): Promise<DownloadFileResult[]> {
+		const { signal, onProgress } = options
+		const { sessionId, files } = await this.prepareDownload(targetDevice, options.pin, signal)
+		const selected = Object.entries(files ?? {})
+			.map(([fileId, file]) => ({ fileId, file }))
+			.filter(({ file }) => options.filter?.(file) ?? true)
+
+		const results = new Map<string, DownloadFileResult>()
+		const settle = (result: DownloadFileResult) => {
+			results.set(result.fileId, result)
+			options.onFileResult?.(result)
+		}
+		const queue = [...selected]
+		const worker = async () => {
+			for (let next = queue.shift(); next; next = queue.shift()) {
+				const { fileId, file } = next
+				const base = { fileId, fileName: file.fileName }
+				if (signal?.aborted) {
+					settle({ ...base, status: "canceled" })
+					continue
+				}
+				try {
+					const saved = await this.downloadVerified(
+						targetDevice,
+						sessionId,
+						fileId,
+						file,
+						destDir,
+						onProgress &&
+							((bytesReceived, speed) =>
+								onProgress({ ...base, bytesReceived, totalBytes: file.size, speed })),
+						signal
+					)
+					settle({ ...base, status: "downloaded", ...saved })
+				} catch (err) {
+					if (signal?.aborted) settle({ ...base, status: "canceled" })
+					else settle({ ...base, status: "failed", error: err as Error })
+				}
+			}
+		}
+		const concurrency = Math.max(1, options.concurrency ?? 3)
+		await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+		return selected.map(({ fileId }) => results.get(fileId)!)
+	}
+
+	/** Stream one shared file into a partial file, check it, and rename it into place. */
+	private async downloadVerified(
 		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
-		sessionId: string
-	): Promise<boolean> {
+		sessionId: string,
+		fileId: string,
+		file: FileMetadata,
+		destDir: string,
+		onProgress?: (bytes: number, speed: number) => void,
+		signal?: AbortSignal
+	): Promise<{ path: string; verified: boolean }> {
+		const targetPath = resolveSavePath(destDir, file.fileName)
+		await mkdir(path.dirname(targetPath), { recursive: true })
+		const url = `${targetDevice.protocol}://${targetDevice.ip}:${targetDevice.port}/api/localsend/v2/download?sessionId=${sessionId}&fileId=${fileId}`
+		const fetchOptions: any = { method: "GET", signal }
+		this.applyTlsOptions(fetchOptions, targetDevice.protocol)
+		const res = await this.fetchOk(url, fetchOptions)
+		if (!res.body) throw LocalSendError.fromStatus(res.status)
+
+		const tempPath = partialSavePath(targetPath)
 		try {
-			const response = await this.requestJson<unknown>(targetDevice, "/api/localsend/v2/cancel", {
-				method: "POST",
-				query: {
-					sessionId
-				},
-				expectJson: false
+			const body = onProgress ? meterStream(res.body, onProgress) : res.body
+			const { received, sha256 } = await receiveToSink(body, createWriteStream(tempPath), {
+				expectedSize: file.size,
+				signal
+			}).catch((err) => {
+				if (err instanceof UploadSizeExceededError) throw integrityError(file, "longer")
+				// fs errors (a full disk, say) carry a syscall; the rest came off the wire.
+				throw (err as { syscall?: string }).syscall ? err : LocalSendError.from(err, signal)
 			})
-
-			return response !== null
+			if (received !== file.size) throw integrityError(file, "shorter")
+			const declared = file.sha256?.toLowerCase()
+			if (declared && declared !== sha256) {
+				throw new LocalSendError("integrity", `${file.fileName}: sha256 mismatch`)
+			}
+			// Claim the final name only now, atomically, so parallel downloads of one
+			// name get distinct files.
+			const finalPath = await moveToUniquePath(tempPath, destDir, file.fileName)
+			return { path: finalPath, verified: !!declared }
 		} catch (err) {
-			console.error("Error canceling session:", err)
-			return false
+			await unlink(tempPath).catch(() => {})
+			throw err
 		}
 	}
 
 	/**
-	 * Get information about a device
+	 * Cancel an ongoing session
 	 */
-	async getDeviceInfo(targetDevice: {
-		ip: string
-		port: number
-		protocol?: "http" | "https"
-	}): Promise<DeviceInfo | null> {
-		try {
-			const candidates = this.getProtocolCandidates(targetDevice.protocol)
-			for (const protocol of candidates) {
+	async cancelSession(
+		targetDevice: { ip: string; port: number; protocol: "http" | "https" },
+		sessionId: string,
+		signal?: AbortSignal
+	): Promise<void> {
+		await this.requestJson<unknown>(targetDevice, "/api/localsend/v2/cancel", {
+			method: "POST",
+			query: {
+				sessionId
+			},
+			expectJson: false,
+			signal
+		})
+	}
+
+	/**
+	 * Get information about a device. Tries the preferred protocol first, then
+	 * the other one; if neither answers, rejects with the last failure.
+	 */
+	async getDeviceInfo(
+		targetDevice: {
+			ip: string
+			port: number
+			protocol?: "http" | "https"
+		},
+		signal?: AbortSignal
+	): Promise<DeviceInfo> {
+		let lastError: LocalSendError | null = null
+		for (const protocol of this.getProtocolCandidates(targetDevice.protocol)) {
+			try {
 				const device = await this.requestJson<DeviceInfo>(
 					{
 						...targetDevice,
@@ -312,24 +747,20 @@ export class LocalSendClient {
 					},
 					"/api/localsend/v2/info",
 					{
-						method: "GET"
+						method: "GET",
+						signal
 					}
 				)
-
-				const normalized = this.normalizeDeviceInfo(device, {
+				return this.normalizeDeviceInfo(device, {
 					...targetDevice,
 					protocol
 				})
-				if (normalized) {
-					return normalized
-				}
+			} catch (err) {
+				lastError = LocalSendError.from(err, signal)
+				if (lastError.kind === "aborted" || lastError.kind === "timeout") break
 			}
-
-			return null
-		} catch (err) {
-			console.error("Error getting device info:", err)
-			return null
 		}
+		throw lastError!
 	}
 
 	private getProtocolCandidates(preferred?: "http" | "https"): Array<"http" | "https"> {
@@ -342,13 +773,9 @@ export class LocalSendClient {
 		return ["https", "http"]
 	}
 	private normalizeDeviceInfo(
-		device: DeviceInfo | null,
+		device: DeviceInfo,
 		targetDevice: { port: number; protocol?: "http" | "https" }
-	): DeviceInfo | null {
-		if (!device) {
-			return null
-		}
-
+	): DeviceInfo {
 		return {
 			...device,
 			port: device.port ?? targetDevice.port,
@@ -356,6 +783,21 @@ export class LocalSendClient {
 		}
 	}
 
+	/**
+	 * fetch, resolving only with a 2xx response. Anything else rejects with a
+	 * LocalSendError: mapped from the status, or from what fetch threw.
+	 */
+	private async fetchOk(url: string, fetchOptions: any, pinSent = false): Promise<Response> {
+		let response: Response
+		try {
+			response = await fetch(url, fetchOptions)
+		} catch (err) {
+			throw LocalSendError.from(err, fetchOptions.signal)
+		}
+		if (!response.ok) throw LocalSendError.fromStatus(response.status, pinSent)
+		return response
+	}
+
 	private async requestJson<T>(
 		targetDevice: { ip: string; port: number; protocol?: "http" | "https" },
 		path: string,
@@ -364,8 +806,9 @@ export class LocalSendClient {
 			body?: unknown
 			query?: Record<string, string>
 			expectJson?: boolean
+			signal?: AbortSignal
 		}
-	): Promise<T | null> {
+	): Promise<T> {
 		const protocol = targetDevice.protocol || this.deviceInfo.protocol || "http"
 		const url = new URL(`${protocol}://${targetDevice.ip}:${targetDevice.port}${path}`)
 		if (options.query) {
@@ -380,7 +823,8 @@ export class LocalSendClient {
 			method: options.method,
 			headers: {
 				"Content-Type": "application/json"
-			}
+			},
+			signal: options.signal
 		}
 
 		if (options.body !== undefined) {
@@ -389,17 +833,17 @@ export class LocalSendClient {
 
 		this.applyTlsOptions(fetchOptions, protocol)
 
-		const response = await fetch(url.toString(), fetchOptions)
-
-		if (!response.ok) {
-			return null
-		}
+		const response = await this.fetchOk(url.toString(), fetchOptions, !!options.query?.pin)
 
 		if (options.expectJson === false) {
 			return {} as T
 		}
 
-		return (await response.json()) as T
+		try {
+			return (await response.json()) as T
+		} catch (err) {
+			throw LocalSendError.from(err, options.signal)
+		}
 	}
 
 	private async requestWithStatus<T>(
@@ -409,8 +853,9 @@ export class LocalSendClient {
 			method: "GET" | "POST"
 			body?: unknown
 			query?: Record<string, string>
+			signal?: AbortSignal
 		}
-	): Promise<{ status: number; data: T | null } | null> {
+	): Promise<{ status: number; data: T | null }> {
 		const protocol = targetDevice.protocol || this.deviceInfo.protocol || "http"
 		const url = new URL(`${protocol}://${targetDevice.ip}:${targetDevice.port}${path}`)
 		if (options.query) {
@@ -425,7 +870,8 @@ export class LocalSendClient {
 			method: options.method,
 			headers: {
 				"Content-Type": "application/json"
-			}
+			},
+			signal: options.signal
 		}
 
 		if (options.body !== undefined) {
@@ -434,11 +880,7 @@ export class LocalSendClient {
 
 		this.applyTlsOptions(fetchOptions, protocol)
 
-		const response = await fetch(url.toString(), fetchOptions)
-		if (!response.ok) {
-			this.lastError = `HTTP ${response.status}`
-			return null
-		}
+		const response = await this.fetchOk(url.toString(), fetchOptions, !!options.query?.pin)
 
 		if (response.status === 204) {
 			return { status: response.status, data: null }
@@ -449,8 +891,12 @@ export class LocalSendClient {
 			return { status: response.status, data: null }
 		}
 
-		const data = (await response.json()) as T
-		return { status: response.status, data }
+		try {
+			const data = (await response.json()) as T
+			return { status: response.status, data }
+		} catch (err) {
+			throw LocalSendError.from(err, options.signal)
+		}
 	}
 
 	private applyTlsOptions(options: any, protocol: "http" | "https"): void {
@@ -1,6 +1,7 @@
 import { randomBytes } from "node:crypto"
 import type { DeviceInfo, FileMetadata } from "../protocol/types.ts"
 import type { StagedFile } from "./files.ts"
+import { ProgressAggregator, type ProgressOptions } from "./progress.ts"
 
 export type UploadSession = {
 	info: DeviceInfo
@@ -9,12 +10,32 @@ export type UploadSession = {
 	acceptedFiles: string[]
 	receivedFiles: Set<string>
 	createdAt: number
+	/** Aborted when the session is canceled, stopping any upload still streaming. */
+	abort: AbortController
+	/** Throttled per-file and session-wide progress for the accepted files. */
+	progress: ProgressAggregator
 }
 
+/**
+ * How many upload sessions may run at once:
+ * - `single`: one at a time, like the official app
+ * - `perSender`: one per sender fingerprint
+ * - `unlimited`: no restriction
+ */
+export type SessionPolicy = "single" | "perSender" | "unlimited"
+
+/** How long a session lives without completing before it expires (1 hour). */
+export const SESSION_TTL_MS = 3_600_000
+
 export class UploadSessionStore {
 	private sessions = new Map<string, UploadSession>()
+	/** Fingerprints of senders whose prepare-upload is still waiting on consent. */
+	private pending = new Map<symbol, string>()
 
-	constructor(private ttlMs: number = 3_600_000) {}
+	constructor(
+		private ttlMs: number = SESSION_TTL_MS,
+		private progressOptions: ProgressOptions = {}
+	) {}
 
 	purgeExpired(now: number = Date.now()): void {
 		for (const [id, s] of this.sessions) {
@@ -22,18 +43,32 @@ export class UploadSessionStore {
 		}
 	}
 
-	create(info: DeviceInfo, files: Record<string, FileMetadata>) {
+	/**
+	 * Open a session for `files`. Tokens are issued only for `acceptedFiles`
+	 * (every file by default), so a receiver can take a subset of what was offered.
+	 */
+	create(
+		info: DeviceInfo,
+		files: Record<string, FileMetadata>,
+		acceptedFiles: string[] = Object.keys(files)
+	) {
 		this.purgeExpired()
 		const sessionId = randomBytes(16).toString("hex")
 		const tokens: Record<string, string> = {}
-		for (const fileId of Object.keys(files)) tokens[fileId] = randomBytes(16).toString("hex")
+		const sizes: Record<string, number> = {}
+		for (const fileId of acceptedFiles) {
+			tokens[fileId] = randomBytes(16).toString("hex")
+			sizes[fileId] = files[fileId]?.size ?? 0
+		}
 		this.sessions.set(sessionId, {
 			info,
 			files,
 			tokens,
-			acceptedFiles: Object.keys(files),
+			acceptedFiles,
 			receivedFiles: new Set(),
-			createdAt: Date.now()
+			createdAt: Date.now(),
+			abort: new AbortController(),
+			progress: new ProgressAggregator(sizes, this.progressOptions)
 		})
 		return { sessionId, tokens }
 	}
@@ -52,6 +87,30 @@ export class UploadSessionStore {
 		return this.sessions.has(sessionId)
 	}
 
+	/**
+	 * Count `sender` as busy while its request awaits consent, so a concurrent
+	 * prepare-upload is blocked before any session exists. Call the returned
+	 * function once the decision is made.
+	 */
+	reserve(sender: string): () => void {
+		const key = Symbol(sender)
+		this.pending.set(key, sender)
+		return () => {
+			this.pending.delete(key)
+		}
+	}
+
+	/** Whether `policy` forbids `sender` from starting a session right now. */
+	isBlocked(policy: SessionPolicy, sender: string): boolean {
+		if (policy === "unlimited") return false
+		this.purgeExpired()
+		const active = [
+			...this.pending.values(),
+			...[...this.sessions.values()].map((s) => s.info.fingerprint)
+		]
+		return policy === "single" ? active.length > 0 : active.includes(sender)
+	}
+
 	validateToken(sessionId: string, fileId: string, token: string): boolean {
 		const s = this.sessions.get(sessionId)
 		return !!s && s.tokens[fileId] === token
@@ -69,6 +128,18 @@ export class UploadSessionStore {
 	delete(sessionId: string): void {
 		this.sessions.delete(sessionId)
 	}
+
+	/**
+	 * Forget a session and abort its in-flight uploads. Returns the canceled
+	 * session, or undefined if there was none.
+	 */
+	cancel(sessionId: string): UploadSession | undefined {
+		const s = this.sessions.get(sessionId)
+		if (!s) return undefined
+		this.sessions.delete(sessionId)
+		s.abort.abort()
+		return s
+	}
 }
 
 export type DownloadSession = { files: Record<string, StagedFile>; createdAt: number }
@@ -76,7 +147,7 @@ export type DownloadSession = { files: Record<string, StagedFile>; createdAt: nu
 export class DownloadSessionStore {
 	private sessions = new Map<string, DownloadSession>()
 
-	constructor(private ttlMs: number = 3_600_000) {}
+	constructor(private ttlMs: number = SESSION_TTL_MS) {}
 
 	purgeExpired(now: number = Date.now()): void {
 		for (const [id, s] of this.sessions) {
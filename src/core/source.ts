@@ -0,0 +1,279 @@
+import { createHash } from "node:crypto"
+import { createReadStream } from "node:fs"
+import { stat } from "node:fs/promises"
+import path from "node:path"
+import { Readable } from "node:stream"
+import type { FileMetadata } from "../protocol/types.ts"
+import { buildFileMetadataFromBytes, buildFileMetadataFromPath, createFileId } from "./files.ts"
+import { detectMimeTypeFromBytes, mimeFromExtension, OCTET_STREAM } from "./mime.ts"
+
+/** Anything createSendSource accepts as the content of one file. */
+export type SendSourceInput =
+	| string
+	| Uint8Array
+	| Blob
+	| ReadableStream<Uint8Array>
+	| AsyncIterable<Uint8Array>
+
+export interface SendSourceOptions {
+	/**
+	 * Name offered to the receiver. Defaults to the path's base name or the
+	 * File's name, and is required for bytes, plain Blobs and streams.
+	 */
+	fileName?: string
+	/** MIME type; detected from the name or the content when left out. */
+	fileType?: string
+	/** Byte length. Required for streams, which must then yield exactly this many bytes. */
+	size?: number
+	/** SHA-256 to declare for a stream, which cannot be hashed before it is sent. */
+	sha256?: string
+	/** Modification time to declare (default: the file's mtime, or now). */
+	modified?: Date
+}
+
+interface SourceBase {
+	fileName: string
+	size: number
+	fileType?: string
+	modified?: Date
+}
+
+/**
+ * One file's content, ready to describe in prepare-upload and to open as an
+ * upload body. Paths, bytes and Blobs can be opened any number of times, so
+ * their uploads are retried; a stream is read once, by the first upload.
+ */
+export type SendSource =
+	| (SourceBase & { kind: "path"; path: string })
+	| (SourceBase & { kind: "bytes"; bytes: Uint8Array })
+	| (SourceBase & { kind: "blob"; blob: Blob })
+	| (SourceBase & {
+			kind: "stream"
+			stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>
+			sha256?: string
+	  })
+
+/** Bytes read from the start of a Blob to sniff its type. */
+const SNIFF_BYTES = 512
+
+const opened = new WeakSet<SendSource>()
+
+/**
+ * Wrap a path, bytes, a Blob, a web ReadableStream or an async iterable of
+ * chunks as a SendSource. Throws a TypeError when a name or, for streams, the
+ * size is missing; a path that is not a file fails as stat does.
+ */
+export async function createSendSource(
+	input: SendSourceInput,
+	options: SendSourceOptions = {}
+): Promise<SendSource> {
+	const { fileType, modified } = options
+	if (typeof input === "string") {
+		const filePath = path.resolve(input)
+		const stats = await stat(filePath)
+		if (!stats.isFile()) throw new TypeError(`Not a file: ${input}`)
+		const fileName = options.fileName ?? path.basename(filePath)
+		return { kind: "path", path: filePath, fileName, size: stats.size, fileType, modified }
+	}
+	if (input instanceof Uint8Array) {
+		const fileName = requireName(options.fileName, "bytes")
+		return { kind: "bytes", bytes: input, fileName, size: input.byteLength, fileType, modified }
+	}
+	if (input instanceof Blob) {
+		const file = input as Partial<File>
+		const fileName = requireName(options.fileName ?? file.name, "a Blob")
+		return {
+			kind: "blob",
+			blob: input,
+			fileName,
+			size: input.size,
+			fileType: fileType ?? (input.type || undefined),
+			modified: modified ?? (file.lastModified ? new Date(file.lastModified) : undefined)
+		}
+	}
+	if (input instanceof ReadableStream || Symbol.asyncIterator in input) {
+		const fileName = requireName(options.fileName, "a stream")
+		const { size } = options
+		if (size === undefined || !Number.isSafeInteger(size) || size < 0) {
+			throw new TypeError("A stream needs its size in bytes")
+		}
+		return {
+			kind: "stream",
+			stream: input,
+			fileName,
+			size,
+			fileType,
+			modified,
+			sha256: options.sha256
+		}
+	}
+	throw new TypeError("Unsupported send source")
+}
+
+function requireName(fileName: string | undefined, what: string): string {
+	if (!fileName) throw new TypeError(`A fileName is required to send ${what}`)
+	return fileName
+}
+
+/** Whether `openSource` may be called again, e.g. to retry a failed upload. */
+export function isReplayable(source: SendSource): boolean {
+	return source.kind !== "stream"
+}
+
+/**
+ * prepare-upload metadata for a source. Bytes are always hashed; paths and
+ * Blobs are hashed as streams unless larger than `hashLimit`. A stream carries
+ * only the sha256 it was created with. The type comes from `fileType`, then
+ * the name, then the first bytes, except for streams, which are not peeked.
+ */
+export async function buildFileMetadataFromSource(
+	source: SendSource,
+	options: { fileId?: string; computeSha256?: boolean; hashLimit?: number } = {}
+): Promise<{ fileId: string; fileMetadata: FileMetadata }> {
+	const fileId = options.fileId ?? createFileId()
+	const metadata = source.modified ? { modified: source.modified.toISOString() } : undefined
+	const hash = options.computeSha256 !== false && source.size <= (options.hashLimit ?? Infinity)
+	switch (source.kind) {
+		case "path":
+			return buildFileMetadataFromPath(source.path, {
+				fileId,
+				fileName: source.fileName,
+				fileType: source.fileType,
+				metadata,
+				computeSha256: options.computeSha256,
+				hashLimit: options.hashLimit
+			})
+		case "bytes":
+			return buildFileMetadataFromBytes(source.bytes, {
+				fileId,
+				fileName: source.fileName,
+				fileType: source.fileType,
+				metadata
+			})
+		case "blob": {
+			const { blob, fileName } = source
+			const fileType =
+				source.fileType ??
+				detectMimeTypeFromBytes(
+					fileName,
+					new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer())
+				)
+			return {
+				fileId,
+				fileMetadata: {
+					id: fileId,
+					fileName,
+					size: source.size,
+					fileType,
+					sha256: hash ? await computeSha256FromStream(blob.stream()) : undefined,
+					metadata: metadata ?? { modified: new Date().toISOString() }
+				}
+			}
+		}
+		case "stream":
+			return {
+				fileId,
+				fileMetadata: {
+					id: fileId,
+					fileName: source.fileName,
+					size: source.size,
+					fileType: source.fileType ?? mimeFromExtension(source.fileName) ?? OCTET_STREAM,
+					sha256: source.sha256,
+					metadata: metadata ?? { modified: new Date().toISOString() }
+				}
+			}
+	}
+}
+
+export async function computeSha256FromStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+	const hash = createHash("sha256")
+	const reader = stream.getReader()
+	for (let next = await reader.read(); !next.done; next = await reader.read()) {
+		hash.update(next.value)
+	}
+	return hash.digest("hex")
+}
+
+/**
+ * The source's content as a fresh stream, for an upload body. A stream source
+ * can be opened once; it errors if it yields more or fewer bytes than its size.
+ */
+export function openSource(source: SendSource): ReadableStream<Uint8Array> {
+	switch (source.kind) {
+		case "path": {
+			// Bun.file streams without buffering the whole file.
+			const isBun = typeof (globalThis as any).Bun !== "undefined"
+			return isBun
+				? (globalThis as any).Bun.file(source.path).stream()
+				: (Readable.toWeb(createReadStream(source.path)) as unknown as ReadableStream<Uint8Array>)
+		}
+		case "bytes":
+			return fromBytes(source.bytes)
+		case "blob":
+			return source.blob.stream()
+		case "stream": {
+			if (opened.has(source)) throw new Error(`${source.fileName}: a stream can only be sent once`)
+			opened.add(source)
+			const stream =
+				source.stream instanceof ReadableStream ? source.stream : fromIterable(source.stream)
+			return stream.pipeThrough(exactSize(source.fileName, source.size))
+		}
+	}
+}
+
+/** Bytes in 64 KiB chunks, so upload progress moves as they are sent. */
+function fromBytes(bytes: Uint8Array): ReadableStream<Uint8Array> {
+	let offset = 0
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			if (offset >= bytes.byteLength) return controller.close()
+			controller.enqueue(bytes.subarray(offset, offset + 64 * 1024))
+			offset += 64 * 1024
+		}
+	})
+}
+
+function fromIterable(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+	const iterator = iterable[Symbol.asyncIterator]()
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await iterator.next()
+			if (done) controller.close()
+			else controller.enqueue(value)
+		},
+		async cancel(reason) {
+			await iterator.return?.(reason)
+		}
+	})
+}
+
+/** A stream source yielded more or fewer bytes than the size it was created with. */
+export class SourceSizeError extends Error {
+	constructor(
+		public readonly fileName: string,
+		public readonly expectedSize: number,
+		public readonly actualSize: number
+	) {
+		super(
+			actualSize > expectedSize
+				? `${fileName}: the stream is longer than its size of ${expectedSize} bytes`
+				: `${fileName}: the stream ended after ${actualSize} of ${expectedSize} bytes`
+		)
+		this.name = "SourceSizeError"
+	}
+}
+
+/** Pass chunks through, failing once the total provably differs from `size`. */
+function exactSize(fileName: string, size: number): TransformStream<Uint8Array, Uint8Array> {
+	let seen = 0
+	return new TransformStream({
+		transform(chunk, controller) {
+			seen += chunk.byteLength
+			if (seen > size) return controller.error(new SourceSizeError(fileName, size, seen))
+			controller.enqueue(chunk)
+		},
+		flush(controller) {
+			if (seen < size) controller.error(new SourceSizeError(fileName, size, seen))
+		}
+	})
+}
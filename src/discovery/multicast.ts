@@ -160,11 +160,13 @@ export class MulticastDiscovery implements Discovery {
 			})
 		}
 		if (device.ip) {
-			const registeredDevice = await this.client.register({
-				ip: device.ip,
-				port: device.port,
-				protocol: device.protocol
-			})
+			const registeredDevice = await this.client
+				.register({
+					ip: device.ip,
+					port: device.port,
+					protocol: device.protocol
+				})
+				.catch(() => null)
 
 			if (registeredDevice) {
 				if (DEBUG_DISCOVERY) {
@@ -1,6 +1,7 @@
 import { hc, type InferResponseType } from "hono/client"
 import type { LocalSendAppType } from "./api/hono-server.ts"
 import type { DeviceInfo, FileMetadata, PrepareUploadResponse, MessageResponse } from "./types.ts"
+import { meterStream } from "./core/progress.ts"
 
 export interface LocalSendClientOptions {
 	baseUrl: string
@@ -51,18 +52,22 @@ export class LocalSendRpcClient {
 		return (await res.json()) as PrepareUploadResponse
 	}
 
+	/**
+	 * Upload a file as one streamed body. `onProgress` sees bytes as the
+	 * connection takes them, with a smoothed speed in bytes per second.
+	 */
 	async uploadFile(
 		sessionId: string,
 		fileId: string,
 		token: string,
 		file: File | Blob,
-		onProgress?: (uploaded: number, total: number) => void
+		onProgress?: (uploaded: number, total: number, speed: number) => void
 	): Promise<MessageResponse> {
 		const fileSize = file.size
-
-		if (onProgress) {
-			onProgress(0, fileSize)
-		}
+		const body = onProgress
+			? meterStream(file.stream(), (bytes, speed) => onProgress(bytes, fileSize, speed))
+			: file.stream()
+		onProgress?.(0, fileSize, 0)
 
 		const res = await this.client.api.localsend.v2.upload.$post(
 			{
@@ -73,16 +78,12 @@ export class LocalSendRpcClient {
 				}
 			} as any,
 			{
-				body: file
+				init: { body, duplex: "half" }
 			} as any
 		)
 
 		if (!res.ok) throw new Error(`Failed to upload file: ${res.status}`)
 
-		if (onProgress) {
-			onProgress(fileSize, fileSize)
-		}
-
 		return (await res.json()) as MessageResponse
 	}
 
@@ -10,8 +10,52 @@ export { HttpDiscovery } from "./discovery/http-discovery.ts"
 
 // Export API
 export { LocalSendServer, LocalSendServer as LocalSendHonoServer } from "./server/server.ts"
+export type { CollisionHandler, MessageHandler, SessionCanceledHandler } from "./server/server.ts"
+export { ServerEventEmitter } from "./server/events.ts"
+export type {
+	ServerEvents,
+	ServerEventName,
+	ServerEventListener,
+	SessionRejectionReason
+} from "./server/events.ts"
+export type { SessionPolicy } from "./core/sessions.ts"
+export type { PinFailure, PinGuardOptions } from "./core/pin-guard.ts"
+export { ProgressAggregator } from "./core/progress.ts"
+export type {
+	ProgressOptions,
+	ProgressReport,
+	SessionProgress,
+	TransferProgress
+} from "./core/progress.ts"
 export { LocalSendClient } from "./api/client.ts"
-export type { StagedFile } from "./core/files.ts"
+export { LocalSendError } from "./core/errors.ts"
+export type { LocalSendErrorKind } from "./core/errors.ts"
+export { isTransient } from "./core/retry.ts"
+export type { RetryPolicy } from "./core/retry.ts"
+export { detectMimeType, mimeFromExtension, sniffMimeType } from "./core/mime.ts"
+export {
+	buildFileMetadataFromSource,
+	createSendSource,
+	isReplayable,
+	SourceSizeError
+} from "./core/source.ts"
+export type { SendSource, SendSourceInput, SendSourceOptions } from "./core/source.ts"
+export type {
+	DownloadAllOptions,
+	DownloadFileProgress,
+	DownloadFileResult,
+	SendFilesOptions,
+	SendFileProgress,
+	SendFileResult,
+	UploadProgressCallback
+} from "./api/client.ts"
+export { buildFileMetadataFromPath } from "./core/files.ts"
+export type {
+	StagedFile,
+	CollisionPolicy,
+	CollisionResolution,
+	FreeSpaceProvider
+} from "./core/files.ts"
 export { LocalSendRpcClient } from "./hono-rpc.ts"
 export type { LocalSendClientOptions } from "./hono-rpc.ts"
 export type { LocalSendAppType } from "./server/routes.ts"
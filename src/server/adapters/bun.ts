@@ -14,9 +14,9 @@ export class BunServerAdapter implements ServerAdapter {
 			const config: any = {
 				port: options.port,
 				fetch: options.fetch as any,
-				// Set a high max request body size to handle large files
-				// Default to 1GB if not specified
-				maxRequestBodySize: options.maxRequestBodySize || 1024 * 1024 * 1024
+				// The routes bound each upload by its declared file size, so Bun's own
+				// cap only applies when a global ceiling was configured
+				maxRequestBodySize: options.maxRequestBodySize || Number.MAX_SAFE_INTEGER
 			}
 			if (options.tls) {
 				config.tls = { cert: options.tls.cert, key: options.tls.key }
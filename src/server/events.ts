@@ -0,0 +1,116 @@
+import type { DeviceInfo, FileMetadata } from "../protocol/types.ts"
+import type { SessionProgress } from "../core/progress.ts"
+
+/** Why a prepare-upload ended without a session. */
+export type SessionRejectionReason = "declined" | "blocked" | "tooLarge" | "insufficientStorage"
+
+/** Payloads of the events LocalSendServer emits over a transfer's lifetime, by name. */
+export interface ServerEvents {
+	/** The receiver accepted a transfer; tokens were issued for `acceptedFileIds`. */
+	sessionCreated: {
+		sessionId: string
+		sender: DeviceInfo
+		files: Record<string, FileMetadata>
+		acceptedFileIds: string[]
+	}
+	/** A prepare-upload was refused, so no session exists. */
+	sessionRejected: {
+		sender: DeviceInfo
+		files: Record<string, FileMetadata>
+		reason: SessionRejectionReason
+	}
+	/** An accepted file began streaming to disk. */
+	fileStarted: { sessionId: string; sender: DeviceInfo; fileId: string; file: FileMetadata }
+	/**
+	 * Bytes arrived for a file. Throttled to the server's progressIntervalMs,
+	 * except that the chunk completing the file is always reported.
+	 */
+	fileProgress: {
+		sessionId: string
+		sender: DeviceInfo
+		/** Key of the file in the session's files map. */
+		fileId: string
+		file: FileMetadata
+		received: number
+		/** Smoothed bytes per second for this file. */
+		speed: number
+		/** Seconds until this file is done, or null while the speed is unknown. */
+		etaSeconds: number | null
+		/** Totals across all accepted files of the session. */
+		session: SessionProgress
+	}
+	/** A file was saved, or kept as-is when the collision policy skipped it. */
+	fileCompleted: {
+		sessionId: string
+		sender: DeviceInfo
+		/** Key of the file in the session's files map. */
+		fileId: string
+		file: FileMetadata
+		filePath: string
+		sha256: string
+		/** The sender declared a sha256 and it matched the received bytes. */
+		verified: boolean
+		/** The name was taken and the existing file was kept instead. */
+		skipped: boolean
+		totalTimeSeconds: number
+		averageSpeed: number
+	}
+	/** A file's upload failed; a failed upload also ends its session. */
+	fileFailed: {
+		sessionId: string
+		sender: DeviceInfo
+		/** Key of the file in the session's files map. */
+		fileId: string
+		file: FileMetadata
+		/** The HTTP status the upload was answered with. */
+		status: number
+		message: string
+	}
+	/** Every accepted file of the session has been received. */
+	sessionCompleted: { sessionId: string; sender: DeviceInfo; files: FileMetadata[] }
+	sessionCanceled: { sessionId: string; sender: DeviceInfo; by: "sender" | "receiver" }
+	/** A text message arrived; it is delivered whole and nothing is saved. */
+	messageReceived: { sender: DeviceInfo; text: string }
+	deviceRegistered: { device: DeviceInfo }
+}
+
+export type ServerEventName = keyof ServerEvents
+export type ServerEventListener<K extends ServerEventName> = (event: ServerEvents[K]) => void
+
+/**
+ * Minimal typed emitter behind LocalSendServer.on/off. Listeners run
+ * synchronously in the order added; one that throws is logged and skipped so
+ * it can't break the transfer that emitted the event.
+ */
+export class ServerEventEmitter {
+	private listeners = new Map<ServerEventName, Set<(event: any) => void>>()
+
+	/** Subscribe to an event. Returns a function that unsubscribes. */
+	on<K extends ServerEventName>(name: K, listener: ServerEventListener<K>): () => void {
+		let set = this.listeners.get(name)
+		if (!set) this.listeners.set(name, (set = new Set()))
+		set.add(listener)
+		return () => this.off(name, listener)
+	}
+
+	off<K extends ServerEventName>(name: K, listener: ServerEventListener<K>): void {
+		this.listeners.get(name)?.delete(listener)
+	}
+
+	/** Number of listeners subscribed to `name`. */
+	listenerCount(name: ServerEventName): number {
+		return this.listeners.get(name)?.size ?? 0
+	}
+
+	emit<K extends ServerEventName>(name: K, event: ServerEvents[K]): void {
+		const set = this.listeners.get(name)
+		if (!set) return
+		for (const listener of [...set]) {
+			try {
+				listener(event)
+			} catch (err) {
+				console.error(`Error in ${name} listener:`, err)
+			}
+		}
+	}
+}
@@ -1,5 +1,4 @@
 import { Hono } from "hono"
-import { bodyLimit } from "hono/body-limit"
 import { openAPIRouteHandler } from "hono-openapi"
 import { Scalar } from "@scalar/hono-api-reference"
 import type { DeviceInfo, PrepareUploadResponse, FileMetadata } from "../protocol/types.ts"
@@ -11,44 +10,109 @@ import {
 	prepareDownloadResponseSchema,
 	messageResponseSchema
 } from "../protocol/types.ts"
-import { Buffer } from "node:buffer"
 import path from "node:path"
 import fs from "node:fs"
-import { unlink } from "node:fs/promises"
+import { rename, unlink } from "node:fs/promises"
 import * as v from "valibot"
 import { describeRoute, resolver, validator } from "hono-openapi"
 import type { Context } from "hono"
-import type { UploadSessionStore, DownloadSessionStore } from "../core/sessions.ts"
-import { uniqueSavePath, type StagedFile } from "../core/files.ts"
+import type { UploadSessionStore, DownloadSessionStore, SessionPolicy } from "../core/sessions.ts"
+import type { PinFailure, PinGuard } from "../core/pin-guard.ts"
+import type { ServerEventEmitter, ServerEvents, SessionRejectionReason } from "./events.ts"
+import { receiveToSink, UploadSizeExceededError, type ReceiveResult } from "../core/receive.ts"
+import { OCTET_STREAM } from "../core/mime.ts"
+import {
+	applyFileTimestamps,
+	type FreeSpaceProvider,
+	isIdenticalFile,
+	partialSavePath,
+	resolveSavePath,
+	moveToUniquePath,
+	type CollisionPolicy,
+	type CollisionResolution,
+	type StagedFile
+} from "../core/files.ts"
 
 export interface LocalSendContext {
 	deviceInfo: DeviceInfo
 	saveDirectory: string
 	requirePin: boolean
 	pin: string
+	pinGuard: PinGuard
+	onPinFailure?: (failure: PinFailure) => void
 	transferRequestHandler?: (
 		senderInfo: DeviceInfo,
 		files: Record<string, FileMetadata>
-	) => Promise<boolean>
-	transferProgressHandler?: (
-		fileId: string,
-		fileName: string,
-		received: number,
-		total: number,
-		speed: number,
-		finished?: boolean,
-		transferInfo?: {
-			filePath: string
-			totalTimeSeconds: number
-			averageSpeed: number
-		}
-	) => Promise<void>
-	onRegisterCallback?: (device: DeviceInfo) => void
-	maxRequestBodySize: number
+	) => Promise<boolean | string[]>
+	events: ServerEventEmitter
+	preserveTimestamps: boolean
+	freeSpaceProvider: FreeSpaceProvider
+	diskSpaceMargin: number
+	sessionPolicy: SessionPolicy
+	collisionPolicy: CollisionPolicy
+	collisionHandler?: (
+		file: FileMetadata,
+		existingPath: string,
+		senderInfo: DeviceInfo
+	) => Promise<CollisionResolution>
+	/** Optional policy ceiling on any single file's size; undefined means no limit. */
+	maxRequestBodySize?: number
 	uploads: UploadSessionStore
 	sharedFiles: StagedFile[]
 	downloads: DownloadSessionStore
 	getRemoteAddress: (c: any) => string | null
+	/** The peer's socket address, ignoring X-Forwarded-For (which a client can forge). */
+	getSocketAddress: (c: any) => string | null
+}
+
+/**
+ * Check `?pin=` when a PIN is set. Returns the response to refuse with, or null
+ * to let the request through. Failures are tracked per socket address so a
+ * forged X-Forwarded-For can't dodge the lockout.
+ */
+function checkPin(ctx: LocalSendContext, c: Context): Response | null {
+	if (!ctx.requirePin) return null
+	const result = ctx.pinGuard.check(ctx.getSocketAddress(c), c.req.query("pin"), ctx.pin)
+	if (result.ok) return null
+	if (result.reason === "locked") {
+		c.header("Retry-After", String(Math.ceil(result.retryAfterMs / 1000)))
+		return c.json({ message: "Too many PIN attempts" }, 429)
+	}
+	if (result.reason === "invalid") {
+		ctx.onPinFailure?.(result.failure)
+		return c.json({ message: "Invalid PIN" }, 401)
+	}
+	return c.json({ message: "PIN required" }, 401)
+}
+
+/**
+ * The text of a request that is really a message: like the official app, a
+ * single text/plain file carrying an inline preview. Null for anything else,
+ * including a real .txt file sent without a preview.
+ */
+function messageText(files: Record<string, FileMetadata>): string | null {
+	const list = Object.values(files)
+	if (list.length !== 1 || list[0]!.fileType !== "text/plain") return null
+	return list[0]!.preview ?? null
+}
+
+/** Apply the configured collision policy to an incoming file whose name is taken. */
+async function resolveCollision(
+	ctx: LocalSendContext,
+	file: FileMetadata,
+	existingPath: string,
+	senderInfo: DeviceInfo
+): Promise<CollisionResolution> {
+	switch (ctx.collisionPolicy) {
+		case "overwrite":
+			return "overwrite"
+		case "skip-if-identical":
+			return (await isIdenticalFile(existingPath, file)) ? "skip" : "rename"
+		case "ask":
+			return ctx.collisionHandler ? ctx.collisionHandler(file, existingPath, senderInfo) : "rename"
+		default:
+			return "rename"
+	}
 }
 
 function createLocalSendMiddleware(ctx: LocalSendContext) {
@@ -116,11 +180,10 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 				try {
 					const body = (await c.req.json()) as Partial<DeviceInfo>
 					const remoteAddress = ctx.getRemoteAddress(c)
-					if (ctx.onRegisterCallback && remoteAddress && body?.fingerprint && body?.alias) {
-						ctx.onRegisterCallback({
-							...body,
-							ip: remoteAddress
-						} as DeviceInfo)
+					if (remoteAddress && body?.fingerprint && body?.alias) {
+						ctx.events.emit("deviceRegistered", {
+							device: { ...body, ip: remoteAddress } as DeviceInfo
+						})
 					}
 					return c.json(ctx.deviceInfo)
 				} catch (err) {
@@ -140,6 +203,9 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 							"application/json": { schema: resolver(prepareUploadResponseSchema) }
 						}
 					},
+					204: {
+						description: "Nothing to upload: no files, or a text message that was delivered"
+					},
 					400: {
 						description: "Bad request",
 						content: {
@@ -147,7 +213,37 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 						}
 					},
 					401: {
-						description: "Unauthorized (PIN required)",
+						description: "Unauthorized (PIN required or wrong)",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					429: {
+						description: "Locked out after too many wrong PINs",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					403: {
+						description: "Rejected by the receiver",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					409: {
+						description: "Blocked by another session",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					413: {
+						description: "A file exceeds the receiver's size limit",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					507: {
+						description: "Not enough free space to store the accepted files",
 						content: {
 							"application/json": { schema: resolver(messageResponseSchema) }
 						}
@@ -160,36 +256,98 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 				try {
 					const body = c.req.valid("json")
 
-					if (ctx.requirePin) {
-						const pinParam = c.req.query("pin")
-						if (!pinParam || pinParam !== ctx.pin) {
-							return c.json({ message: "PIN required" }, 401)
-						}
-					}
+					const pinError = checkPin(ctx, c)
+					if (pinError) return pinError
 
 					if (Object.keys(body.files).length === 0) return c.body(null, 204)
 
-					if (ctx.transferRequestHandler) {
-						// The wire body carries no sender IP; attach the socket address (as the
-						// register route does) so consent UIs can show who is connecting.
-						const remoteAddress = ctx.getRemoteAddress(c)
-						const senderInfo: DeviceInfo = remoteAddress
-							? { ...body.info, ip: remoteAddress }
-							: body.info
-						const accepted = await ctx.transferRequestHandler(senderInfo, body.files)
-
-						if (!accepted) {
-							return c.json({ message: "Transfer rejected by user" }, 403)
-						}
+					// The wire body carries no sender IP; attach the socket address (as the
+					// register route does) so consent UIs and listeners can show who is
+					// connecting.
+					const remoteAddress = ctx.getRemoteAddress(c)
+					const sender: DeviceInfo = remoteAddress ? { ...body.info, ip: remoteAddress } : body.info
+
+					// The whole message is already in the request, so there is nothing to
+					// upload: deliver it and answer 204 like the official app, no session.
+					// With nobody listening for messages, it goes through as an ordinary
+					// file instead, so the text is saved as message.txt rather than lost.
+					const text = messageText(body.files)
+					if (text !== null && ctx.events.listenerCount("messageReceived") > 0) {
+						ctx.events.emit("messageReceived", { sender, text })
+						return c.body(null, 204)
+					}
+					const reject = (reason: SessionRejectionReason) =>
+						ctx.events.emit("sessionRejected", { sender, files: body.files, reason })
+
+					// Checked before consent: there is no point asking the user about a
+					// transfer the receiver's policy won't allow.
+					const ceiling = ctx.maxRequestBodySize
+					if (ceiling !== undefined && Object.values(body.files).some((f) => f.size > ceiling)) {
+						reject("tooLarge")
+						return c.json({ message: `File exceeds the size limit of ${ceiling} bytes` }, 413)
 					}
 
-					const { sessionId, tokens } = ctx.uploads.create(body.info, body.files)
+					if (ctx.uploads.isBlocked(ctx.sessionPolicy, body.info.fingerprint)) {
+						reject("blocked")
+						return c.json({ message: "Blocked by another session" }, 409)
+					}
 
-					const response: PrepareUploadResponse = {
-						sessionId,
-						files: tokens
+					// Hold the slot while the user decides, so a second request arriving
+					// during the consent prompt is blocked too. Once created, the session
+					// itself keeps the slot until it completes, is canceled or expires.
+					const release = ctx.uploads.reserve(body.info.fingerprint)
+					try {
+						let acceptedFileIds = Object.keys(body.files)
+						if (ctx.transferRequestHandler) {
+							const decision = await ctx.transferRequestHandler(sender, body.files)
+
+							// A handler may accept only some files by returning their ids; tokens
+							// are issued just for those, as the protocol allows. Unknown ids are
+							// ignored, and an empty selection is the same as a rejection.
+							if (Array.isArray(decision)) {
+								acceptedFileIds = decision.filter((id) => Object.hasOwn(body.files, id))
+							} else if (!decision) {
+								acceptedFileIds = []
+							}
+
+							if (acceptedFileIds.length === 0) {
+								reject("declined")
+								return c.json({ message: "Transfer rejected by user" }, 403)
+							}
+						}
+
+						// Refuse now rather than fail halfway through a multi-GB write. If free
+						// space can't be determined, let the transfer proceed as before.
+						const requiredBytes =
+							acceptedFileIds.reduce((sum, id) => sum + body.files[id]!.size, 0) +
+							ctx.diskSpaceMargin
+						const freeBytes = await ctx.freeSpaceProvider(ctx.saveDirectory).catch(() => null)
+						if (freeBytes !== null && freeBytes < requiredBytes) {
+							reject("insufficientStorage")
+							return c.json(
+								{
+									message: `Insufficient storage: ${requiredBytes} bytes required, ${freeBytes} available`
+								},
+								507
+							)
+						}
+
+						const { sessionId, tokens } = ctx.uploads.create(sender, body.files, acceptedFileIds)
+						ctx.events.emit("sessionCreated", {
+							sessionId,
+							sender,
+							files: body.files,
+							acceptedFileIds
+						})
+
+						const response: PrepareUploadResponse = {
+							sessionId,
+							files: tokens
+						}
+						return c.json(response)
+					} finally {
+						release()
 					}
-					return c.json(response)
 				} catch (err) {
 					console.error("Error handling prepare-upload:", err)
 					return c.json({ message: "Invalid body" }, 400)
@@ -208,7 +366,7 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 						}
 					},
 					400: {
-						description: "Bad request",
+						description: "Bad request, incomplete upload, or sha256 mismatch",
 						content: {
 							"application/json": { schema: resolver(messageResponseSchema) }
 						}
@@ -225,8 +383,14 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 							"application/json": { schema: resolver(messageResponseSchema) }
 						}
 					},
+					409: {
+						description: "Session canceled while the file was uploading",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
 					413: {
-						description: "Payload too large",
+						description: "Body larger than the file's declared size",
 						content: {
 							"application/json": { schema: resolver(messageResponseSchema) }
 						}
@@ -239,10 +403,6 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 					}
 				}
 			}),
-			bodyLimit({
-				maxSize: ctx.maxRequestBodySize,
-				onError: (c) => c.json({ message: "Payload too large" }, 413)
-			}),
 			validator(
 				"query",
 				v.object({ sessionId: v.string(), fileId: v.string(), token: v.string() })
@@ -274,93 +434,173 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 					return c.json({ message: "File metadata not found" }, 404)
 				}
 
-				let filePath: string
+				// The declared size is the limit for this request. A Content-Length that
+				// disagrees with it can only end in a size mismatch, so refuse before
+				// reading a byte; bodies without one are bounded while streaming below.
+				const contentLength = c.req.header("content-length")
+				if (contentLength !== undefined) {
+					const length = Number(contentLength)
+					if (length > fileMetadata.size) {
+						return c.json({ message: "Content-Length exceeds declared file size" }, 413)
+					}
+					if (length !== fileMetadata.size) {
+						return c.json({ message: "Content-Length does not match declared file size" }, 400)
+					}
+				}
+
+				// Stream into a hidden temp file beside the destination and only rename it
+				// into place once every check has passed, so nothing watching the save
+				// directory sees a half-written file and a crash never leaves a truncated
+				// file under the real name.
+				let targetPath: string
+				let tempPath: string
 				try {
-					filePath = uniqueSavePath(ctx.saveDirectory, fileMetadata.fileName)
+					targetPath = resolveSavePath(ctx.saveDirectory, fileMetadata.fileName)
+					tempPath = partialSavePath(targetPath)
 				} catch (err) {
 					return c.json({ message: "Unsafe path" }, 400)
 				}
 
+				const sender = session.info
+				// Every failure past this point ends the upload for good: report it
+				// and clean up whatever reached disk.
+				const fail = async (status: 400 | 409 | 413 | 500, message: string) => {
+					ctx.uploads.delete(sessionId)
+					await unlink(tempPath).catch(() => {})
+					ctx.events.emit("fileFailed", {
+						sessionId,
+						sender,
+						fileId,
+						file: fileMetadata,
+						status,
+						message
+					})
+					return c.json({ message }, status)
+				}
+				const complete = (
+					event: Omit<ServerEvents["fileCompleted"], "sessionId" | "sender" | "fileId" | "file">
+				) => {
+					session.progress.complete(fileId)
+					const { allDone } = ctx.uploads.markReceived(sessionId, fileId)
+					ctx.events.emit("fileCompleted", {
+						sessionId,
+						sender,
+						fileId,
+						file: fileMetadata,
+						...event
+					})
+					if (allDone) {
+						ctx.events.emit("sessionCompleted", {
+							sessionId,
+							sender,
+							files: session.acceptedFiles.map((id) => session.files[id]!)
+						})
+					}
+				}
+
+				let collision: CollisionResolution = "rename"
+				if (fs.existsSync(targetPath)) {
+					collision = await resolveCollision(ctx, fileMetadata, targetPath, sender)
+					// The session may have been canceled while the user was deciding.
+					if (session.abort.signal.aborted) return fail(409, "Session canceled")
+				}
+
+				if (collision === "skip") {
+					// Drain rather than abort the body: replying while the sender is still
+					// writing makes many HTTP clients report a failed upload.
+					await c.req.raw.body?.pipeTo(new WritableStream()).catch(() => {})
+					// A kept file counts as received so the session still completes.
+					complete({
+						filePath: targetPath,
+						sha256: fileMetadata.sha256?.toLowerCase() ?? "",
+						verified: false,
+						skipped: true,
+						totalTimeSeconds: 0,
+						averageSpeed: 0
+					})
+					return c.json({ message: "File already exists, skipped" })
+				}
+
 				try {
-					const dirPath = path.dirname(filePath)
+					const dirPath = path.dirname(tempPath)
 					if (!fs.existsSync(dirPath)) {
 						fs.mkdirSync(dirPath, { recursive: true })
 					}
 
 					const stream = c.req.raw.body
-					if (!stream) {
-						return c.json({ message: "Request body stream not available" }, 500)
-					}
+					if (!stream) return fail(500, "Request body stream not available")
 
-					const fileStream = fs.createWriteStream(filePath, { flags: "w" })
-					const reader = stream.getReader()
-					let received = 0
 					const start = Date.now()
-
-					// Waits for all buffered writes to actually reach disk. Without this,
-					// the handler could respond success before large files are fully
-					// flushed, racing anyone who reads the file right after the response.
-					const closeFileStream = () =>
-						new Promise<void>((resolve, reject) => {
-							fileStream.end((err?: Error | null) => (err ? reject(err) : resolve()))
-						})
-
+					ctx.events.emit("fileStarted", { sessionId, sender, fileId, file: fileMetadata })
+					session.progress.start(fileId)
+					let result: ReceiveResult
 					try {
-						while (true) {
-							const { done, value } = await reader.read()
-							if (done) break
-							if (value && value.length > 0) {
-								received += value.length
-								fileStream.write(Buffer.from(value))
-								if (ctx.transferProgressHandler) {
-									const elapsed = (Date.now() - start) / 1000
-									ctx.transferProgressHandler(
-										fileId,
-										fileMetadata.fileName,
-										received,
-										fileMetadata.size,
-										elapsed > 0 ? received / elapsed : 0
-									)
-								}
+						result = await receiveToSink(stream, fs.createWriteStream(tempPath), {
+							expectedSize: fileMetadata.size,
+							signal: session.abort.signal,
+							onProgress: (received) => {
+								const report = session.progress.update(fileId, received)
+								if (!report) return
+								ctx.events.emit("fileProgress", {
+									sessionId,
+									sender,
+									fileId,
+									file: fileMetadata,
+									received,
+									speed: report.file.speed,
+									etaSeconds: report.file.etaSeconds,
+									session: report.session
+								})
 							}
-						}
+						})
 					} catch (error) {
-						await closeFileStream().catch(() => {})
-						ctx.uploads.delete(sessionId)
-						await unlink(filePath).catch(() => {})
+						if (error instanceof UploadSizeExceededError) return fail(413, error.message)
+						if (session.abort.signal.aborted) return fail(409, "Session canceled")
 						console.error("Error processing file upload:", error)
-						return c.json({ message: "Error processing file upload" }, 500)
+						return fail(500, "Error processing file upload")
 					}
-
-					await closeFileStream()
+					const { received, sha256 } = result
 
 					if (received !== fileMetadata.size) {
-						await unlink(filePath).catch(() => {})
-						ctx.uploads.delete(sessionId)
-						return c.json({ message: "Incomplete upload: size mismatch" }, 400)
+						return fail(400, "Incomplete upload: size mismatch")
 					}
 
-					ctx.uploads.markReceived(sessionId, fileId)
-					const totalTime = (Date.now() - start) / 1000
-					if (ctx.transferProgressHandler) {
-						ctx.transferProgressHandler(
-							fileId,
-							fileMetadata.fileName,
-							received,
-							fileMetadata.size,
-							totalTime > 0 ? received / totalTime : 0,
-							true,
-							{
-								filePath,
-								totalTimeSeconds: totalTime,
-								averageSpeed: totalTime > 0 ? received / totalTime : 0
-							}
-						)
+					const declaredSha256 = fileMetadata.sha256?.toLowerCase()
+					if (declaredSha256 && declaredSha256 !== sha256) {
+						return fail(400, "Integrity check failed: sha256 mismatch")
 					}
+
+					// Stamp the sender's mtime/atime before the rename so the file appears
+					// with them already set. Best-effort: a filesystem that refuses utimes
+					// must not fail an otherwise complete transfer.
+					if (ctx.preserveTimestamps) {
+						await applyFileTimestamps(tempPath, fileMetadata.metadata).catch(() => {})
+					}
+
+					// The final name is claimed only now, atomically, so two uploads of the
+					// same name that finish close together still end up with distinct files.
+					// Overwriting relies on rename replacing the existing file in one step.
+					let filePath: string
+					if (collision === "overwrite") {
+						filePath = targetPath
+						await rename(tempPath, filePath)
+					} else {
+						filePath = await moveToUniquePath(tempPath, ctx.saveDirectory, fileMetadata.fileName)
+					}
+
+					const totalTime = (Date.now() - start) / 1000
+					complete({
+						filePath,
+						sha256,
+						verified: !!declaredSha256,
+						skipped: false,
+						totalTimeSeconds: totalTime,
+						averageSpeed: totalTime > 0 ? received / totalTime : 0
+					})
 					return c.json({ message: "File received successfully" })
 				} catch (err) {
 					console.error("Error handling file upload:", err)
-					return c.json({ message: "Error handling file upload" }, 500)
+					return fail(500, "Error handling file upload")
 				}
 			}
 		)
@@ -391,8 +631,9 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 					return c.json({ message: "Missing sessionId" }, 400)
 				}
 
-				if (ctx.uploads.has(sessionId)) {
-					ctx.uploads.delete(sessionId)
+				const canceled = ctx.uploads.cancel(sessionId)
+				if (canceled) {
+					ctx.events.emit("sessionCanceled", { sessionId, sender: canceled.info, by: "sender" })
 				}
 
 				return c.json({ message: "Session canceled" })
@@ -410,7 +651,13 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 						}
 					},
 					401: {
-						description: "PIN required",
+						description: "PIN required or wrong",
+						content: {
+							"application/json": { schema: resolver(messageResponseSchema) }
+						}
+					},
+					429: {
+						description: "Locked out after too many wrong PINs",
 						content: {
 							"application/json": { schema: resolver(messageResponseSchema) }
 						}
@@ -425,10 +672,8 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 			}),
 			validator("query", v.object({ pin: v.optional(v.string()) })),
 			async (c) => {
-				if (ctx.requirePin) {
-					const pinParam = c.req.query("pin")
-					if (!pinParam || pinParam !== ctx.pin) return c.json({ message: "PIN required" }, 401)
-				}
+				const pinError = checkPin(ctx, c)
+				if (pinError) return pinError
 				if (!ctx.sharedFiles || ctx.sharedFiles.length === 0) {
 					return c.json({ message: "Nothing shared" }, 404)
 				}
@@ -464,7 +709,7 @@ export function createLocalSendRoutes(ctx: LocalSendContext) {
 				return new Response(webStream, {
 					status: 200,
 					headers: {
-						"Content-Type": staged.metadata.fileType || "application/octet-stream",
+						"Content-Type": staged.metadata.fileType || OCTET_STREAM,
 						"Content-Length": staged.metadata.size.toString(),
 						"Content-Disposition": `attachment; filename="${encodeURIComponent(staged.metadata.fileName)}"`
 					}
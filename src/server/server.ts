@@ -3,16 +3,44 @@ import type { ServerAdapter } from "./adapters/index.ts"
 import { createServerAdapter } from "./adapters/index.ts"
 import { createLocalSendRoutes, type LocalSendContext } from "./routes.ts"
 import type { DeviceInfo, FileMetadata } from "../protocol/types.ts"
-import { UploadSessionStore, DownloadSessionStore } from "../core/sessions.ts"
-import { stageFile, type StagedFile } from "../core/files.ts"
+import {
+	UploadSessionStore,
+	DownloadSessionStore,
+	SESSION_TTL_MS,
+	type SessionPolicy
+} from "../core/sessions.ts"
+import { PinGuard, type PinFailure, type PinGuardOptions } from "../core/pin-guard.ts"
+import {
+	cleanupPartialFiles,
+	getFreeSpace,
+	stageFile,
+	type FreeSpaceProvider,
+	type CollisionPolicy,
+	type CollisionResolution,
+	type StagedFile
+} from "../core/files.ts"
 import { generateSelfSignedCert, certFingerprintSha256 } from "../crypto/cert.ts"
 import fs from "node:fs"
+import {
+	ServerEventEmitter,
+	type ServerEventListener,
+	type ServerEventName,
+	type SessionRejectionReason
+} from "./events.ts"
 
+/**
+ * Decides on an incoming transfer: `true` accepts every file, `false` rejects the
+ * request, and an array of fileIds accepts just those files.
+ */
 export type TransferRequestHandler = (
 	senderInfo: DeviceInfo,
 	files: Record<string, FileMetadata>
-) => Promise<boolean>
+) => Promise<boolean | string[]>
 
+/**
+ * Positional progress callback, kept for existing callers; it is an adapter
+ * over the fileProgress and fileCompleted events.
+ */
 export type TransferProgressHandler = (
 	fileId: string,
 	fileName: string,
@@ -24,22 +52,58 @@ export type TransferProgressHandler = (
 		filePath: string
 		totalTimeSeconds: number
 		averageSpeed: number
+		/** SHA-256 of the bytes actually received (hex). */
+		sha256: string
+		/** True when the sender declared a sha256 and it matched the received bytes. */
+		verified: boolean
+		/** The name was taken and the collision policy kept the existing file instead. */
+		skipped: boolean
 	}
 ) => Promise<void>
 
+/** Receives a text message; messages never create files or upload sessions. */
+export type MessageHandler = (senderInfo: DeviceInfo, text: string) => void
+
+/**
+ * Fired when an upload session ends early: `by` is "sender" for a /cancel
+ * request and "receiver" for LocalSendServer.cancelSession.
+ */
+export type SessionCanceledHandler = (
+	sessionId: string,
+	by: "sender" | "receiver",
+	senderInfo: DeviceInfo
+) => void
+
+/**
+ * Answers a name collision under the `ask` policy: `existingPath` is the file
+ * already on disk under the incoming file's name.
+ */
+export type CollisionHandler = (
+	file: FileMetadata,
+	existingPath: string,
+	senderInfo: DeviceInfo
+) => Promise<CollisionResolution>
+
 export class LocalSendServer {
 	public app!: Hono
 	private server: unknown = null
 	private serverAdapter: ServerAdapter
-	private uploads: UploadSessionStore = new UploadSessionStore()
+	private uploads: UploadSessionStore
 	private _deviceInfo: DeviceInfo
 	private saveDirectory: string
 	private requirePin: boolean = false
 	private pin: string = ""
+	private pinGuard: PinGuard
+	private pinFailureHandler: ((failure: PinFailure) => void) | null = null
 	private transferRequestHandler: TransferRequestHandler | null = null
-	private transferProgressHandler: TransferProgressHandler | null = null
-	private onRegisterCallback: ((device: DeviceInfo) => void) | null = null
-	private maxRequestBodySize: number = 5 * 1024 * 1024 * 1024
+	private events = new ServerEventEmitter()
+	private preserveTimestamps: boolean = true
+	private collisionPolicy: CollisionPolicy = "rename"
+	private freeSpaceProvider: FreeSpaceProvider = getFreeSpace
+	private diskSpaceMargin: number = 64 * 1024 * 1024
+	private sessionPolicy: SessionPolicy = "unlimited"
+	private collisionHandler: CollisionHandler | null = null
+	private maxRequestBodySize?: number
 	private sharedFilePaths: string[] = []
 	private sharedFiles: StagedFile[] = []
 	private downloads = new DownloadSessionStore()
@@ -51,11 +115,50 @@ export class LocalSendServer {
 		options: {
 			saveDirectory?: string
 			pin?: string
+			/** Wrong-PIN limits per client address (default: 5 per minute, then 5 min lockout). */
+			pinAttempts?: PinGuardOptions
+			/** Called for every wrong PIN, e.g. to warn that someone is guessing. */
+			onPinFailure?: (failure: PinFailure) => void
 			serverAdapter?: ServerAdapter
 			onTransferRequest?: TransferRequestHandler
 			onTransferProgress?: TransferProgressHandler
+			/**
+			 * Text messages, which skip onTransferRequest and are answered with 204.
+			 * Without this (or a messageReceived listener) a message is received as
+			 * an ordinary message.txt file.
+			 */
+			onMessage?: MessageHandler
 			onRegister?: (device: DeviceInfo) => void
+			/** Called once a transfer is accepted, with the id cancelSession takes. */
+			onSessionCreated?: (sessionId: string, senderInfo: DeviceInfo) => void
+			/**
+			 * Called when a prepare-upload ends without a session. After an accept
+			 * this can still be "insufficientStorage".
+			 */
+			onSessionRejected?: (reason: SessionRejectionReason, senderInfo: DeviceInfo) => void
+			onSessionCanceled?: SessionCanceledHandler
+			/** Apply the sender's modified/accessed times to saved files (default: true). */
+			preserveTimestamps?: boolean
+			/** How to save a file whose name already exists (default: "rename"). */
+			collisionPolicy?: CollisionPolicy
+			/** Consulted for every collision when collisionPolicy is "ask". */
+			onCollision?: CollisionHandler
+			/** Free-space lookup for the save directory (default: statfs). */
+			freeSpaceProvider?: FreeSpaceProvider
+			/** Bytes that must stay free on top of an accepted transfer (default: 64 MiB). */
+			diskSpaceMargin?: number
+			/**
+			 * Concurrent upload sessions to allow (default: "unlimited"). Others get
+			 * 409 "Blocked by another session", as from the official app.
+			 */
+			sessionPolicy?: SessionPolicy
+			/**
+			 * Optional ceiling on the size of any single file. Each upload is always
+			 * bounded by its declared size; this only caps what may be declared.
+			 */
 			maxRequestBodySize?: number
+			/** Minimum ms between progress reports for one file (default: 250; 0 = every chunk). */
+			progressIntervalMs?: number
 			protocol?: "http" | "https"
 			sharedFiles?: string[]
 			tls?: { cert: string; key: string }
@@ -66,10 +169,18 @@ export class LocalSendServer {
 		this.saveDirectory = options.saveDirectory || "./received_files"
 		this.pin = options.pin || ""
 		this.requirePin = !!this.pin
+		this.pinGuard = new PinGuard(options.pinAttempts)
+		this.uploads = new UploadSessionStore(undefined, { intervalMs: options.progressIntervalMs })
+		this.pinFailureHandler = options.onPinFailure || null
 		this.transferRequestHandler = options.onTransferRequest || null
-		this.transferProgressHandler = options.onTransferProgress || null
-		this.onRegisterCallback = options.onRegister || null
-		this.maxRequestBodySize = options.maxRequestBodySize || this.maxRequestBodySize
+		this.adaptCallbacks(options)
+		this.preserveTimestamps = options.preserveTimestamps ?? true
+		this.collisionPolicy = options.collisionPolicy ?? "rename"
+		this.collisionHandler = options.onCollision || null
+		this.freeSpaceProvider = options.freeSpaceProvider || getFreeSpace
+		this.diskSpaceMargin = options.diskSpaceMargin ?? this.diskSpaceMargin
+		this.sessionPolicy = options.sessionPolicy ?? "unlimited"
+		this.maxRequestBodySize = options.maxRequestBodySize || undefined
 		this.sharedFilePaths = options.sharedFiles ?? []
 		this.requestedProtocol = options.protocol
 		this.tls = options.tls
@@ -83,6 +194,68 @@ export class LocalSendServer {
 		this.registerRoutes()
 	}
 
+	/** Subscribe to a transfer lifecycle event. Returns a function that unsubscribes. */
+	on<K extends ServerEventName>(name: K, listener: ServerEventListener<K>): () => void {
+		return this.events.on(name, listener)
+	}
+
+	off<K extends ServerEventName>(name: K, listener: ServerEventListener<K>): void {
+		this.events.off(name, listener)
+	}
+
+	/** Route the constructor's callback options through the matching events. */
+	private adaptCallbacks(options: {
+		onTransferProgress?: TransferProgressHandler
+		onMessage?: MessageHandler
+		onRegister?: (device: DeviceInfo) => void
+		onSessionCreated?: (sessionId: string, senderInfo: DeviceInfo) => void
+		onSessionRejected?: (reason: SessionRejectionReason, senderInfo: DeviceInfo) => void
+		onSessionCanceled?: SessionCanceledHandler
+	}) {
+		const {
+			onTransferProgress,
+			onMessage,
+			onRegister,
+			onSessionCreated,
+			onSessionRejected,
+			onSessionCanceled
+		} = options
+		if (onTransferProgress) {
+			this.events.on("fileProgress", (e) => {
+				onTransferProgress(e.fileId, e.file.fileName, e.received, e.file.size, e.speed)
+			})
+			this.events.on("fileCompleted", (e) => {
+				onTransferProgress(
+					e.fileId,
+					e.file.fileName,
+					e.file.size,
+					e.file.size,
+					e.averageSpeed,
+					true,
+					{
+						filePath: e.filePath,
+						totalTimeSeconds: e.totalTimeSeconds,
+						averageSpeed: e.averageSpeed,
+						sha256: e.sha256,
+						verified: e.verified,
+						skipped: e.skipped
+					}
+				)
+			})
+		}
+		if (onMessage) this.events.on("messageReceived", (e) => onMessage(e.sender, e.text))
+		if (onRegister) this.events.on("deviceRegistered", (e) => onRegister(e.device))
+		if (onSessionCreated) {
+			this.events.on("sessionCreated", (e) => onSessionCreated(e.sessionId, e.sender))
+		}
+		if (onSessionRejected) {
+			this.events.on("sessionRejected", (e) => onSessionRejected(e.reason, e.sender))
+		}
+		if (onSessionCanceled) {
+			this.events.on("sessionCanceled", (e) => onSessionCanceled(e.sessionId, e.by, e.sender))
+		}
+	}
+
 	get deviceInfo(): DeviceInfo {
 		return this._deviceInfo
 	}
@@ -97,14 +270,22 @@ export class LocalSendServer {
 			saveDirectory: this.saveDirectory,
 			requirePin: this.requirePin,
 			pin: this.pin,
+			pinGuard: this.pinGuard,
+			onPinFailure: this.pinFailureHandler || undefined,
 			transferRequestHandler: this.transferRequestHandler || undefined,
-			transferProgressHandler: this.transferProgressHandler || undefined,
-			onRegisterCallback: this.onRegisterCallback || undefined,
+			events: this.events,
+			preserveTimestamps: this.preserveTimestamps,
+			collisionPolicy: this.collisionPolicy,
+			collisionHandler: this.collisionHandler || undefined,
+			freeSpaceProvider: this.freeSpaceProvider,
+			diskSpaceMargin: this.diskSpaceMargin,
+			sessionPolicy: this.sessionPolicy,
 			maxRequestBodySize: this.maxRequestBodySize,
 			uploads: this.uploads,
 			sharedFiles: this.sharedFiles,
 			downloads: this.downloads,
-			getRemoteAddress: this.getRemoteAddress.bind(this)
+			getRemoteAddress: this.getRemoteAddress.bind(this),
+			getSocketAddress: this.getSocketAddress.bind(this)
 		}
 
 		this.app = createLocalSendRoutes(ctx)
@@ -116,17 +297,28 @@ export class LocalSendServer {
 			return forwardedFor.split(",")[0]?.trim() || null
 		}
 
+		return this.getSocketAddress(c)
+	}
+
+	private getSocketAddress(c: any): string | null {
 		const raw = c.req?.raw
-		const socketAddress = raw?.socket?.remoteAddress
+		// @hono/node-server hands the IncomingMessage to Hono as `env.incoming`.
+		const socketAddress = raw?.socket?.remoteAddress ?? c.env?.incoming?.socket?.remoteAddress
 		if (socketAddress) {
 			return this.normalizeRemoteAddress(socketAddress)
 		}
 
+		// Deno.serve passes its handler info, which carries the peer address.
+		const denoAddress = c.env?.remoteAddr?.hostname
+		if (typeof denoAddress === "string") {
+			return this.normalizeRemoteAddress(denoAddress)
+		}
+
 		const server = this.server as any
 		if (server && typeof server.requestIP === "function" && raw) {
 			const addr = server.requestIP(raw)
 			if (addr && typeof addr.address === "string") {
-				return addr.address
+				return this.normalizeRemoteAddress(addr.address)
 			}
 		}
 
@@ -147,6 +339,11 @@ export class LocalSendServer {
 
 	async start(): Promise<void> {
 		try {
+			// A temp file nobody has written to for longer than a session can live
+			// belongs to a transfer that died with a previous run. Fresher ones may
+			// be uploads in progress in another process sharing the directory.
+			await cleanupPartialFiles(this.saveDirectory, SESSION_TTL_MS)
+
 			if (this.sharedFilePaths.length > 0) {
 				this.sharedFiles = await Promise.all(this.sharedFilePaths.map(stageFile))
 				this._deviceInfo.download = true
@@ -169,9 +366,11 @@ export class LocalSendServer {
 				tls: wantsHttps ? this.tls : undefined
 			})
 
-			const sizeInGB = Math.round(this.maxRequestBodySize / (1024 * 1024 * 1024))
 			console.log(`LocalSend server started on port ${this._deviceInfo.port}`)
-			console.log(`Maximum request body size: ${sizeInGB} GB`)
+			if (this.maxRequestBodySize) {
+				const sizeInMB = Math.round(this.maxRequestBodySize / (1024 * 1024))
+				console.log(`Maximum file size: ${sizeInMB} MB`)
+			}
 			console.log(`API documentation available at http://localhost:${this._deviceInfo.port}/docs`)
 		} catch (error) {
 			console.error("Failed to start server:", error)
@@ -179,6 +378,18 @@ export class LocalSendServer {
 		}
 	}
 
+	/**
+	 * Cancel an upload session from the receiving side: uploads still streaming
+	 * are aborted and their partial files removed. Returns false if the session
+	 * no longer exists (finished, canceled or expired).
+	 */
+	cancelSession(sessionId: string): boolean {
+		const canceled = this.uploads.cancel(sessionId)
+		if (!canceled) return false
+		this.events.emit("sessionCanceled", { sessionId, sender: canceled.info, by: "receiver" })
+		return true
+	}
+
 	async stop(): Promise<void> {
 		if (this.server) {
 			await this.serverAdapter.stop(this.server)
@@ -5,6 +5,7 @@ import { colors } from "./theme.ts"
 import type { TuiStore } from "./store.ts"
 import {
 	HintBar,
+	CollisionModal,
 	IncomingModal,
 	ReceiveTab,
 	SendTab,
@@ -15,7 +16,12 @@ import {
 } from "./components.tsx"
 
 const hintFor = (store: TuiStore): string => {
-	if (store.state.incomingRequest) return "Y accept · N decline"
+	if (store.state.collisionPrompt) return "R rename · O overwrite · S skip"
+	if (store.state.incomingRequest) {
+		return store.state.incomingRequest.isMessage
+			? "Enter/Esc close"
+			: "j/k move · Space toggle file · Y accept selected · N decline"
+	}
 	if (store.state.session) {
 		const settled =
 			store.state.session.status !== "sending" && store.state.session.status !== "waiting"
@@ -50,10 +56,26 @@ export const App = (props: { store: TuiStore }) => {
 	})
 
 	useKeyboard((key: KeyEvent) => {
-		// 1. Incoming consent modal owns all keys
+		// 1. A pending name collision blocks an upload, so it outranks everything
+		if (store.state.collisionPrompt) {
+			if (key.name === "r" || key.name === "escape") store.resolveCollision("rename")
+			else if (key.name === "o") store.resolveCollision("overwrite")
+			else if (key.name === "s") store.resolveCollision("skip")
+			return
+		}
+
+		// Incoming consent modal owns all keys
 		if (store.state.incomingRequest) {
+			if (store.state.incomingRequest.isMessage) {
+				const close = ["return", "escape", "y", "n", "q"]
+				if (close.includes(key.name)) store.declineIncoming()
+				return
+			}
 			if (key.name === "y") store.acceptIncoming()
 			else if (key.name === "n" || key.name === "escape") store.declineIncoming()
+			else if (key.name === "j" || key.name === "down") store.moveIncomingCursor(1)
+			else if (key.name === "k" || key.name === "up") store.moveIncomingCursor(-1)
+			else if (key.name === "space") store.toggleIncomingFile()
 			return
 		}
 
@@ -131,6 +153,9 @@ export const App = (props: { store: TuiStore }) => {
 			<Show when={store.state.incomingRequest} fallback={<box />}>
 				<IncomingModal store={store} />
 			</Show>
+			<Show when={store.state.collisionPrompt} fallback={<box />}>
+				<CollisionModal store={store} />
+			</Show>
 		</box>
 	)
 }
@@ -289,6 +289,12 @@ export const ReceiveTab = (props: { store: TuiStore }) => {
 								<text fg={colors.dim}>{`${file.time} `}</text>
 								<text fg={colors.white}>{`${file.fileName} `}</text>
 								<text fg={colors.dim}>{`${prettyBytes(file.size)} from ${file.from}`}</text>
+								<Show when={file.verified} fallback={<box />}>
+									<text fg={colors.green}>{" ✓ verified"}</text>
+								</Show>
+								<Show when={file.skipped} fallback={<box />}>
+									<text fg={colors.dim}>{" (kept existing)"}</text>
+								</Show>
 							</box>
 						)}
 					</For>
@@ -458,12 +464,18 @@ export const IncomingModal = (props: { store: TuiStore }) => {
 								} (${prettyBytes(totalBytes())})`}
 							</text>
 							<For each={reqFiles()}>
-								{(file) => (
-									<box flexDirection="row">
-										<text fg={colors.white}>{`• ${file.name} `}</text>
-										<text fg={colors.dim}>{prettyBytes(file.size)}</text>
-									</box>
-								)}
+								{(file, index) => {
+									const atCursor = () => req()?.cursor === index()
+									const ticked = () => req()?.selectedIds.includes(file.id) ?? false
+									return (
+										<box flexDirection="row">
+											<text fg={atCursor() ? colors.accent : colors.white}>
+												{`${atCursor() ? "▶" : " "} ${ticked() ? "[x]" : "[ ]"} ${file.name} `}
+											</text>
+											<text fg={colors.dim}>{prettyBytes(file.size)}</text>
+										</box>
+									)
+								}}
 							</For>
 						</box>
 					}
@@ -473,10 +485,52 @@ export const IncomingModal = (props: { store: TuiStore }) => {
 						<text fg={colors.white}>{req()?.message ?? ""}</text>
 					</box>
 				</Show>
+				<Show
+					when={!req()?.isMessage}
+					fallback={
+						<box flexDirection="row" marginTop={1}>
+							<text fg={colors.dim}>Enter close</text>
+						</box>
+					}
+				>
+					<box flexDirection="row" marginTop={1} gap={1}>
+						<text fg={colors.dim}>Space toggle ·</text>
+						<text fg={colors.green}>Y accept</text>
+						<text fg={colors.dim}>·</text>
+						<text fg={colors.red}>N decline</text>
+					</box>
+				</Show>
+			</box>
+		</Overlay>
+	)
+}
+
+// ── Name collision modal ──
+
+export const CollisionModal = (props: { store: TuiStore }) => {
+	const prompt = () => props.store.state.collisionPrompt
+	return (
+		<Overlay>
+			<box
+				flexDirection="column"
+				borderStyle="rounded"
+				border={true}
+				borderColor={colors.yellow}
+				title=" File already exists "
+				paddingLeft={1}
+				paddingRight={1}
+				width={58}
+			>
+				<text
+					fg={colors.white}
+				>{`${prompt()?.from ?? ""} is sending ${prompt()?.fileName ?? ""}`}</text>
+				<text fg={colors.dim}>{`but ${prompt()?.existingPath ?? ""} exists`}</text>
 				<box flexDirection="row" marginTop={1} gap={1}>
-					<text fg={colors.green}>Y accept</text>
+					<text fg={colors.green}>R rename</text>
+					<text fg={colors.dim}>·</text>
+					<text fg={colors.yellow}>O overwrite</text>
 					<text fg={colors.dim}>·</text>
-					<text fg={colors.red}>N decline</text>
+					<text fg={colors.red}>S skip</text>
 				</box>
 			</box>
 		</Overlay>
@@ -1,11 +1,15 @@
 import { getDeviceInfo } from "../index.ts"
-import type { DeviceInfo } from "../index.ts"
+import type { CollisionPolicy, DeviceInfo } from "../index.ts"
 
 /** Startup options for the OpenTUI dashboard, threaded from the CLI. */
 export interface TuiOptions {
 	alias?: string
 	port?: number
 	saveDir?: string
+	/** How to save a received file whose name is taken (`--onCollision`). */
+	collisionPolicy?: CollisionPolicy
+	/** PIN senders must supply before the receiver accepts anything (`--pin`). */
+	pin?: string
 	/** Serve/advertise over HTTPS. Defaults to true to match the official app. */
 	https?: boolean
 }
@@ -1,6 +1,6 @@
 import { expect, test } from "bun:test"
 import { getDeviceInfo } from "../index.ts"
-import type { DeviceInfo, FileMetadata } from "../index.ts"
+import type { CollisionHandler, DeviceInfo, FileMetadata, PinFailure } from "../index.ts"
 import type { DiscoveredDevice } from "./transfer.ts"
 import {
 	createTuiStore,
@@ -43,7 +43,8 @@ function makeDeps(persistOverride?: { persist: Persist }) {
 		serverStart: 0,
 		serverStop: 0,
 		sentTexts: [] as string[],
-		sentPaths: [] as string[]
+		sentPaths: [] as string[],
+		canceledSessions: [] as string[]
 	}
 	// Mutable clock so tests can advance time (device TTL, send speed). Existing
 	// tests that ignore it still observe a stable 1000.
@@ -51,8 +52,9 @@ function makeDeps(persistOverride?: { persist: Persist }) {
 	let serverOptions: Record<string, unknown> | undefined
 	let discoveredCb: ((device: DeviceInfo) => void) | null = null
 	let requestHandler:
-		| ((info: DeviceInfo, files: Record<string, FileMetadata>) => Promise<boolean>)
+		| ((info: DeviceInfo, files: Record<string, FileMetadata>) => Promise<boolean | string[]>)
 		| null = null
+	let sessions = 0
 	let progressHandler:
 		| ((
 				fileId: string,
@@ -83,6 +85,10 @@ function makeDeps(persistOverride?: { persist: Persist }) {
 				},
 				stop: async () => {
 					calls.serverStop++
+				},
+				cancelSession: (sessionId: string) => {
+					calls.canceledSessions.push(sessionId)
+					return true
 				}
 			}
 		},
@@ -102,7 +108,14 @@ function makeDeps(persistOverride?: { persist: Persist }) {
 		calls,
 		clock,
 		emitDevice: (d: DeviceInfo) => discoveredCb?.(d),
-		fireRequest: (i: DeviceInfo, files: Record<string, FileMetadata>) => requestHandler?.(i, files),
+		// Like the server: an accept is followed by a new session.
+		fireRequest: (i: DeviceInfo, files: Record<string, FileMetadata>) =>
+			requestHandler?.(i, files).then((decision) => {
+				const accepted = Array.isArray(decision) ? decision.length > 0 : decision
+				const onSessionCreated = serverOptions?.onSessionCreated as (id: string) => void
+				if (accepted) onSessionCreated(`session-${++sessions}`)
+				return decision
+			}),
 		fireProgress: (
 			fileId: string,
 			fileName: string,
@@ -111,6 +124,8 @@ function makeDeps(persistOverride?: { persist: Persist }) {
 			speed: number,
 			finished: boolean
 		) => progressHandler?.(fileId, fileName, received, total, speed, finished),
+		/** The server's consent callback itself, which answers without creating a session. */
+		requestHandlerFor: () => requestHandler!,
 		serverOptions: () => serverOptions
 	}
 }
@@ -221,6 +236,24 @@ test("a completed send reports an aggregate transfer speed", async () => {
 	expect(store.state.session?.speed).toBeGreaterThan(0)
 })
 
+test("upload progress shows in the send session while a file is in flight", async () => {
+	const { deps } = makeDeps()
+	const seen: { received: number; speed: number }[] = []
+	let store!: ReturnType<typeof createTuiStore>
+	deps.sendPath = async (_i, _d, _path, onProgress) => {
+		onProgress?.(400, 1000, 2048)
+		const s = store.state.session!
+		seen.push({ received: s.files[0]!.received, speed: s.speed })
+		return { ok: true, message: "sent" }
+	}
+	store = createTuiStore(info, deps)
+	store.addDevice(makeDevice("10.0.0.5"))
+	await store.addPath(import.meta.path)
+	await store.sendToDevice(store.selectedDevice()!)
+	expect(seen).toEqual([{ received: 400, speed: 2048 }])
+	expect(store.state.session?.files[0]?.received).toBe(store.state.session?.files[0]?.size)
+})
+
 test("sending with an empty selection sets an error and no session", async () => {
 	const { deps } = makeDeps()
 	const store = createTuiStore(info, deps)
@@ -266,6 +299,23 @@ test("cancel while the only file is in flight ends canceledBySender, not finishe
 	expect(store.state.session?.files[0]?.status).not.toBe("done")
 })
 
+test("cancel aborts the upload in flight", async () => {
+	const { deps } = makeDeps()
+	const store = createTuiStore(info, deps)
+	store.addDevice(makeDevice("10.0.0.5"))
+	await store.addPath(import.meta.path)
+	let aborted = false
+	deps.sendPath = async (_i, _d, _path, _onProgress, signal) => {
+		store.cancelSession()
+		aborted = signal?.aborted ?? false
+		return { ok: false, message: "Upload failed: The operation was aborted." }
+	}
+	await store.sendToDevice(store.selectedDevice()!)
+	expect(aborted).toBe(true)
+	expect(store.state.session?.status).toBe("canceledBySender")
+	expect(store.state.statusLevel).not.toBe("error")
+})
+
 test("incoming request is held for consent when quickSave is off", async () => {
 	const { deps, fireRequest } = makeDeps()
 	const store = createTuiStore(info, deps)
@@ -280,6 +330,34 @@ test("incoming request is held for consent when quickSave is off", async () => {
 	expect(store.state.session?.direction).toBe("receive")
 })
 
+test("unticking a file accepts only the remaining subset", async () => {
+	const { deps, fireRequest } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const sender = makeDevice("10.0.0.9", { alias: "Sender" })
+	const pending = fireRequest(sender, {
+		a: fileMeta("a", "photo.png", 100),
+		b: fileMeta("b", "video.mp4", 200)
+	})
+	store.moveIncomingCursor(1)
+	store.toggleIncomingFile()
+	expect(store.state.incomingRequest?.selectedIds).toEqual(["a"])
+	store.acceptIncoming()
+	await expect(pending!).resolves.toEqual(["a"])
+	expect(store.state.session?.files.map((f) => f.id)).toEqual(["a"])
+})
+
+test("unticking every file declines the request", async () => {
+	const { deps, fireRequest } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const pending = fireRequest(makeDevice("10.0.0.9"), { a: fileMeta("a", "photo.png", 100) })
+	store.toggleIncomingFile(0)
+	store.acceptIncoming()
+	await expect(pending!).resolves.toBe(false)
+	expect(store.state.session).toBeNull()
+})
+
 test("quickSave 'on' auto-accepts without a modal", async () => {
 	const { deps, fireRequest } = makeDeps()
 	const store = createTuiStore(info, deps)
@@ -370,6 +448,63 @@ test("a stalled receive can be canceled so it stops blocking new transfers", asy
 	expect(accepted).toBe(true)
 })
 
+test("a receive the server refuses after consent opens no session and blocks nothing", async () => {
+	const { deps, requestHandlerFor, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const sender = makeDevice("10.0.0.9", { alias: "Sender" })
+	const pending = requestHandlerFor()(sender, { a: fileMeta("a", "x.bin", 100) })
+	store.acceptIncoming()
+	await expect(pending).resolves.toBe(true)
+	// The files did not fit: the server answered 507 instead of creating a session.
+	const onSessionRejected = serverOptions()?.onSessionRejected as (
+		reason: string,
+		sender: DeviceInfo
+	) => void
+	onSessionRejected("insufficientStorage", sender)
+	expect(store.state.session).toBeNull()
+	expect(store.state.statusMessage).toBe("Not enough free space to receive from Sender")
+
+	const next = requestHandlerFor()(makeDevice("10.0.0.8"), { b: fileMeta("b", "y.bin", 10) })
+	expect(store.state.incomingRequest).not.toBeNull()
+	store.acceptIncoming()
+	await expect(next).resolves.toBe(true)
+})
+
+test("canceling a receive aborts its upload session on the server", async () => {
+	const { deps, fireRequest, calls, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const pending = fireRequest(makeDevice("10.0.0.9"), { a: fileMeta("a", "x.bin", 100) })
+	store.acceptIncoming()
+	await pending
+	const onSessionCreated = serverOptions()?.onSessionCreated as (id: string) => void
+	onSessionCreated("session-1")
+	store.cancelSession()
+	expect(store.state.session?.status).toBe("canceledByReceiver")
+	expect(calls.canceledSessions).toEqual(["session-1"])
+})
+
+test("a sender canceling mid-receive settles the session as canceledBySender", async () => {
+	const { deps, fireRequest, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const pending = fireRequest(makeDevice("10.0.0.9", { alias: "Sender" }), {
+		a: fileMeta("a", "x.bin", 100)
+	})
+	store.acceptIncoming()
+	await pending
+	const options = serverOptions()!
+	;(options.onSessionCreated as (id: string) => void)("session-1")
+	const onSessionCanceled = options.onSessionCanceled as (id: string, by: string) => void
+	// Another session's cancel is not ours.
+	onSessionCanceled("session-0", "sender")
+	expect(store.state.session?.status).toBe("sending")
+	onSessionCanceled("session-1", "sender")
+	expect(store.state.session?.status).toBe("canceledBySender")
+	expect(store.state.statusMessage).toBe("Sender canceled the transfer")
+})
+
 test("progress from a canceled receive does not leak into the next session", async () => {
 	const { deps, fireRequest, fireProgress } = makeDeps()
 	const store = createTuiStore(info, deps)
@@ -438,16 +573,32 @@ test("a single text/plain file WITHOUT a preview is treated as a file, not a mes
 	expect(store.state.incomingRequest?.message).toBeNull()
 })
 
-test("a single text/plain file WITH a preview is treated as a message", async () => {
-	const { deps, fireRequest } = makeDeps()
+test("a message from the server is shown and closes without starting a session", async () => {
+	// The server recognizes messages itself and hands them to onMessage; nothing
+	// is uploaded, so closing the modal must not open a receive session.
+	const { deps, serverOptions } = makeDeps()
 	const store = createTuiStore(info, deps)
 	await store.boot()
 	const sender = makeDevice("10.0.0.9", { alias: "Sender" })
-	void fireRequest(sender, {
-		a: fileMeta("a", "message.txt", 5, { fileType: "text/plain", preview: "hello" })
-	})
+	const onMessage = serverOptions()?.onMessage as (sender: DeviceInfo, text: string) => void
+	onMessage(sender, "hello")
 	expect(store.state.incomingRequest?.isMessage).toBe(true)
 	expect(store.state.incomingRequest?.message).toBe("hello")
+	store.acceptIncoming()
+	expect(store.state.incomingRequest).toBeNull()
+	expect(store.state.session).toBeNull()
+})
+
+test("a message never replaces a pending consent prompt", async () => {
+	const { deps, fireRequest, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	const sender = makeDevice("10.0.0.9", { alias: "Sender" })
+	void fireRequest(sender, { a: fileMeta("a", "photo.png", 100) })
+	const onMessage = serverOptions()?.onMessage as (sender: DeviceInfo, text: string) => void
+	onMessage(makeDevice("10.0.0.8", { alias: "Other" }), "hi")
+	expect(store.state.incomingRequest?.isMessage).toBe(false)
+	expect(store.state.statusMessage).toBe("Message from Other: hi")
 })
 
 test("tab cycling wraps", () => {
@@ -485,6 +636,47 @@ test("an explicit save directory overrides the default and reaches the server",
 	await store.cleanup()
 })
 
+test("a wrong PIN from a sender surfaces as an error status", async () => {
+	const { deps, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps, { pin: "4242" })
+	await store.boot()
+	expect(serverOptions()?.pin).toBe("4242")
+	const onPinFailure = serverOptions()?.onPinFailure as (failure: PinFailure) => void
+	onPinFailure({ ip: "10.0.0.9", attempts: 2, lockedUntil: null })
+	expect(store.state.statusLevel).toBe("error")
+	expect(store.state.statusMessage).toContain("10.0.0.9")
+	onPinFailure({ ip: "10.0.0.9", attempts: 5, lockedUntil: 2000 })
+	expect(store.state.statusMessage).toContain("locked out")
+	await store.cleanup()
+})
+
+test("the receiver runs one upload session at a time", async () => {
+	const { deps, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps)
+	await store.boot()
+	expect(serverOptions()?.sessionPolicy).toBe("single")
+	await store.cleanup()
+})
+
+test("the ask collision policy prompts and answers with the chosen resolution", async () => {
+	const { deps, serverOptions } = makeDeps()
+	const store = createTuiStore(info, deps, { collisionPolicy: "ask" })
+	await store.boot()
+	expect(serverOptions()?.collisionPolicy).toBe("ask")
+	const onCollision = serverOptions()?.onCollision as CollisionHandler
+	const sender = makeDevice("10.0.0.9", { alias: "Sender" })
+	const pending = onCollision(fileMeta("a", "photo.png", 100), "/tmp/photo.png", sender)
+	expect(store.state.collisionPrompt?.fileName).toBe("photo.png")
+	// A second collision while the prompt is open is renamed, not stacked.
+	await expect(
+		onCollision(fileMeta("b", "other.png", 100), "/tmp/other.png", sender)
+	).resolves.toBe("rename")
+	store.resolveCollision("overwrite")
+	await expect(pending).resolves.toBe("overwrite")
+	expect(store.state.collisionPrompt).toBeNull()
+	await store.cleanup()
+})
+
 test("manual address entry adds and focuses the device", async () => {
 	const { deps } = makeDeps()
 	const store = createTuiStore(info, deps)
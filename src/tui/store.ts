@@ -3,7 +3,7 @@ import os from "node:os"
 import path from "node:path"
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
 import { LocalSendHonoServer } from "../index.ts"
-import type { DeviceInfo, FileMetadata } from "../index.ts"
+import type { CollisionPolicy, CollisionResolution, DeviceInfo, FileMetadata } from "../index.ts"
 import { createDiscovery, createScanner } from "../discovery/runtime.ts"
 import { sendPathToDevice, sendTextToDevice, type DiscoveredDevice } from "./transfer.ts"
 
@@ -61,9 +61,21 @@ export interface Session {
 export interface IncomingRequest {
 	sender: { alias: string; ip: string; deviceType: string | null; fingerprint: string }
 	files: SessionFile[]
+	/** Ids of the files ticked for receiving; every file starts ticked. */
+	selectedIds: string[]
+	/** Row of the file list the toggle key acts on. */
+	cursor: number
 	isMessage: boolean
 	message: string | null
-	resolve: (accepted: boolean) => void
+	resolve: (decision: boolean | string[]) => void
+}
+
+/** An incoming file whose name is already taken, waiting for R/O/S under the `ask` policy. */
+export interface CollisionPrompt {
+	fileName: string
+	existingPath: string
+	from: string
+	resolve: (resolution: CollisionResolution) => void
 }
 
 export interface ReceivedFile {
@@ -71,6 +83,10 @@ export interface ReceivedFile {
 	size: number
 	time: string
 	from: string
+	/** The sender declared a sha256 and the received bytes matched it. */
+	verified: boolean
+	/** The name was taken and the existing file was kept instead. */
+	skipped: boolean
 }
 
 export interface TuiSettings {
@@ -92,6 +108,7 @@ export interface TuiState {
 	serverRunning: boolean
 	session: Session | null
 	incomingRequest: IncomingRequest | null
+	collisionPrompt: CollisionPrompt | null
 	quickSave: QuickSaveMode
 	recentReceives: ReceivedFile[]
 	settings: TuiSettings
@@ -151,6 +168,7 @@ export interface ScannerLike {
 export interface ServerLike {
 	start(): Promise<unknown> | unknown
 	stop(): Promise<unknown> | unknown
+	cancelSession(sessionId: string): boolean
 }
 
 export type ServerOptions = ConstructorParameters<typeof LocalSendHonoServer>[1]
@@ -215,6 +233,8 @@ export const DEVICE_TTL_MS = 30_000
 /** Non-identity startup options threaded from the CLI (e.g. `--save-dir`). */
 export interface TuiInit {
 	saveDir?: string
+	collisionPolicy?: CollisionPolicy
+	pin?: string
 }
 
 export function createTuiStore(
@@ -246,6 +266,7 @@ export function createTuiStore(
 		serverRunning: false,
 		session: null,
 		incomingRequest: null,
+		collisionPrompt: null,
 		quickSave: persisted.quickSave ?? "off",
 		recentReceives: [],
 		settings,
@@ -260,6 +281,20 @@ export function createTuiStore(
 	let server: ServerLike | null = null
 	let scanInterval: ReturnType<typeof setInterval> | null = null
 	let cancelRequested = false
+	/** Aborts the send in flight; the client cancels the session on the receiver. */
+	let sendAbort: AbortController | null = null
+	// Server-side id of the upload session behind the current receive, so the
+	// cancel key can abort it.
+	let receiveSessionId: string | null = null
+	// A transfer the user accepted whose session the server has yet to create.
+	// The receive overlay opens only once it does: the server may still refuse
+	// it (e.g. 507 when the files don't fit), and an overlay opened on consent
+	// would then sit in "sending" and block every later transfer.
+	let acceptedReceive: {
+		senderInfo: DeviceInfo
+		files: Record<string, FileMetadata>
+		acceptedIds: string[]
+	} | null = null
 
 	// Freshness tracking for device expiry, keyed by `ip:port`. `lastSeen` is
 	// refreshed on every discovery/scan hit; `pinnedDevices` holds manual entries
@@ -458,9 +493,63 @@ export function createTuiStore(
 		try {
 			const created = deps.createServer(deviceInfo, {
 				saveDirectory: state.settings.saveDir,
+				pin: init.pin,
+				onPinFailure: (failure) => {
+					const from = failure.ip ?? "an unknown address"
+					setStatus(
+						failure.lockedUntil
+							? `Wrong PIN from ${from} ${failure.attempts} times — locked out`
+							: `Wrong PIN from ${from} (attempt ${failure.attempts}) — someone may be guessing`,
+						"error"
+					)
+				},
+				// Like the official app: a second sender gets 409 while a receive runs.
+				sessionPolicy: "single",
+				onSessionCreated: (sessionId) => {
+					receiveSessionId = sessionId
+					if (!acceptedReceive) return
+					const { senderInfo, files, acceptedIds } = acceptedReceive
+					acceptedReceive = null
+					beginReceiveSession(senderInfo, files, acceptedIds)
+				},
+				onSessionRejected: (reason, senderInfo) => {
+					// The only refusal that can follow an accept.
+					if (reason !== "insufficientStorage") return
+					acceptedReceive = null
+					setStatus(`Not enough free space to receive from ${senderInfo.alias}`, "error")
+				},
+				onSessionCanceled: (sessionId, by) => {
+					if (by !== "sender" || sessionId !== receiveSessionId) return
+					receiveSessionId = null
+					if (state.session?.direction !== "receive") return
+					if (state.session.status !== "sending" && state.session.status !== "waiting") return
+					setState("session", { status: "canceledBySender", doneAt: deps.now() })
+					setStatus(`${state.session.peer.alias} canceled the transfer`, "error")
+				},
+				collisionPolicy: init.collisionPolicy ?? "rename",
+				onCollision: async (file, existingPath, senderInfo) =>
+					handleCollision(file, existingPath, senderInfo),
 				onTransferRequest: async (senderInfo, files) => handleIncoming(senderInfo, files),
-				onTransferProgress: async (fileId, fileName, received, total, speed, finished) => {
-					handleProgress(fileId, fileName, received, total, speed, finished ?? false)
+				onMessage: (senderInfo, text) => handleMessage(senderInfo, text),
+				onTransferProgress: async (
+					fileId,
+					fileName,
+					received,
+					total,
+					speed,
+					finished,
+					transferInfo
+				) => {
+					handleProgress(
+						fileId,
+						fileName,
+						received,
+						total,
+						speed,
+						finished ?? false,
+						transferInfo?.verified ?? false,
+						transferInfo?.skipped ?? false
+					)
 				}
 			})
 			await created.start()
@@ -486,13 +575,16 @@ export function createTuiStore(
 	const handleIncoming = (
 		senderInfo: DeviceInfo,
 		files: Record<string, FileMetadata>
-	): Promise<boolean> => {
+	): Promise<boolean | string[]> => {
 		// Single-session model: decline a new request while another transfer is
-		// in flight or a consent prompt is still pending. Accepting would replace
-		// the live `session` (a running send queue would then mutate what is now a
-		// receive session) or overwrite `incomingRequest` and drop the first
-		// sender's unresolved consent promise, leaving it to hang until timeout.
-		// The sender gets a clean decline instead.
+		// in flight or a consent prompt is still pending. The server's "single"
+		// session policy already answers overlapping receives with 409; this also
+		// covers an outgoing send and a receive the server has already given up
+		// on but the overlay still shows. Accepting would replace the live
+		// `session` (a running send queue would then mutate what is now a receive
+		// session) or overwrite `incomingRequest` and drop the first sender's
+		// unresolved consent promise, leaving it to hang until timeout. The sender
+		// gets a clean decline instead.
 		const busy =
 			state.incomingRequest != null ||
 			(state.session != null &&
@@ -502,19 +594,12 @@ export function createTuiStore(
 		const fingerprint = senderInfo.fingerprint
 		const senderIsFavorite = isFavorite(fingerprint)
 		if (state.quickSave === "on" || (state.quickSave === "favorites" && senderIsFavorite)) {
-			beginReceiveSession(senderInfo, files)
+			acceptedReceive = { senderInfo, files, acceptedIds: Object.keys(files) }
 			return Promise.resolve(true)
 		}
 
-		const fileList = Object.values(files)
-		// Match the official app: a request is a "message" only when the single text
-		// file carries an inline preview. A real .txt file has fileType text/plain but
-		// no preview and must be shown as a file, not an empty message.
-		const isMessage =
-			fileList.length === 1 &&
-			fileList[0]!.fileType === "text/plain" &&
-			fileList[0]!.preview != null
-		return new Promise<boolean>((resolve) => {
+		const fileIds = Object.keys(files)
+		return new Promise<boolean | string[]>((resolve) => {
 			setState({
 				incomingRequest: {
 					sender: {
@@ -523,29 +608,118 @@ export function createTuiStore(
 						deviceType: senderInfo.deviceType ?? null,
 						fingerprint
 					},
-					files: fileList.map((f) => ({
-						id: f.id,
+					files: Object.entries(files).map(([fileId, f]) => ({
+						id: fileId,
 						name: f.fileName,
 						size: f.size,
 						received: 0,
 						status: "queued" as FileStatus
 					})),
-					isMessage,
-					message: isMessage ? (fileList[0]!.preview ?? null) : null,
-					resolve: (accepted: boolean) => {
-						if (accepted) beginReceiveSession(senderInfo, files)
+					selectedIds: fileIds,
+					cursor: 0,
+					isMessage: false,
+					message: null,
+					resolve: (decision: boolean | string[]) => {
+						const accepted = Array.isArray(decision) ? decision : decision ? fileIds : []
+						if (accepted.length > 0) acceptedReceive = { senderInfo, files, acceptedIds: accepted }
 						setState({ incomingRequest: null })
-						resolve(accepted)
+						// Answer with a plain boolean unless the user actually narrowed the
+						// selection, so the common all-or-nothing case stays unchanged.
+						if (accepted.length === 0) resolve(false)
+						else if (accepted.length === fileIds.length) resolve(true)
+						else resolve(accepted)
 					}
 				}
 			})
 		})
 	}
 
-	const acceptIncoming = () => state.incomingRequest?.resolve(true)
+	// Messages arrive whole (the server answers them without a session), so the
+	// modal only shows the text; any answer just closes it.
+	const handleMessage = (senderInfo: DeviceInfo, text: string) => {
+		// Never replace a pending consent prompt: its sender is still waiting on it.
+		if (state.incomingRequest) {
+			setStatus(`Message from ${senderInfo.alias}: ${text}`, "info")
+			return
+		}
+		setState({
+			incomingRequest: {
+				sender: {
+					alias: senderInfo.alias,
+					ip: (senderInfo as DiscoveredDevice).ip ?? "",
+					deviceType: senderInfo.deviceType ?? null,
+					fingerprint: senderInfo.fingerprint
+				},
+				files: [],
+				selectedIds: [],
+				cursor: 0,
+				isMessage: true,
+				message: text,
+				resolve: () => setState({ incomingRequest: null })
+			}
+		})
+	}
+
+	const acceptIncoming = () =>
+		state.incomingRequest?.resolve([...state.incomingRequest.selectedIds])
 	const declineIncoming = () => state.incomingRequest?.resolve(false)
 
-	const beginReceiveSession = (senderInfo: DeviceInfo, files: Record<string, FileMetadata>) => {
+	const moveIncomingCursor = (delta: 1 | -1) => {
+		const req = state.incomingRequest
+		if (!req || req.files.length === 0) return
+		setState(
+			"incomingRequest",
+			"cursor",
+			(req.cursor + delta + req.files.length) % req.files.length
+		)
+	}
+
+	/** Tick or untick one file of the pending request (the one under the cursor by default). */
+	const toggleIncomingFile = (index: number = state.incomingRequest?.cursor ?? 0) => {
+		const req = state.incomingRequest
+		const file = req?.files[index]
+		if (!req || !file) return
+		const selected = req.selectedIds.includes(file.id)
+		// Keep the request's file order so the answer reads like the offer.
+		const next = req.files
+			.map((f) => f.id)
+			.filter((id) => (id === file.id ? !selected : req.selectedIds.includes(id)))
+		setState("incomingRequest", "selectedIds", next)
+	}
+
+	// ── Name collisions (`ask` policy) ──
+
+	const handleCollision = (
+		file: FileMetadata,
+		existingPath: string,
+		senderInfo: DeviceInfo
+	): Promise<CollisionResolution> => {
+		// Files of one session upload in parallel, so a second collision can arrive
+		// while the first prompt is open. Rename it rather than stacking prompts.
+		if (state.collisionPrompt) return Promise.resolve("rename")
+		return new Promise<CollisionResolution>((resolve) => {
+			setState({
+				collisionPrompt: {
+					fileName: file.fileName,
+					existingPath,
+					from: senderInfo.alias,
+					resolve: (resolution: CollisionResolution) => {
+						setState({ collisionPrompt: null })
+						resolve(resolution)
+					}
+				}
+			})
+		})
+	}
+
+	const resolveCollision = (resolution: CollisionResolution) =>
+		state.collisionPrompt?.resolve(resolution)
+
+	const beginReceiveSession = (
+		senderInfo: DeviceInfo,
+		files: Record<string, FileMetadata>,
+		acceptedIds: string[] = Object.keys(files)
+	) => {
 		setState({
 			session: {
 				direction: "receive",
@@ -555,10 +729,10 @@ export function createTuiStore(
 					deviceType: senderInfo.deviceType ?? null
 				},
 				status: "sending",
-				files: Object.values(files).map((f) => ({
-					id: f.id,
-					name: f.fileName,
-					size: f.size,
+				files: acceptedIds.map((fileId) => ({
+					id: fileId,
+					name: files[fileId]!.fileName,
+					size: files[fileId]!.size,
 					received: 0,
 					status: "sending" as FileStatus
 				})),
@@ -575,7 +749,9 @@ export function createTuiStore(
 		received: number,
 		total: number,
 		speed: number,
-		finished: boolean
+		finished: boolean,
+		verified: boolean = false,
+		skipped: boolean = false
 	) => {
 		if (!state.session || state.session.direction !== "receive") return
 		// Ignore progress once the receive is settled: if the user canceled a
@@ -590,7 +766,7 @@ export function createTuiStore(
 		if (idx < 0) return
 		setState("session", "files", idx, {
 			received,
-			status: finished ? "done" : "sending"
+			status: finished ? (skipped ? "skipped" : "done") : "sending"
 		})
 		setState("session", "speed", speed)
 		if (finished) {
@@ -599,12 +775,21 @@ export function createTuiStore(
 					fileName,
 					size: total,
 					time: new Date(deps.now()).toLocaleTimeString(),
-					from: state.session?.peer.alias ?? "unknown"
+					from: state.session?.peer.alias ?? "unknown",
+					verified,
+					skipped
 				},
 				...list
 			])
-			setStatus(`Received ${fileName}`, "success")
-			const allDone = state.session!.files.every((f) => f.status === "done")
+			setStatus(
+				skipped
+					? `Skipped ${fileName} (already saved)`
+					: `Received ${fileName}${verified ? " (verified)" : ""}`,
+				"success"
+			)
+			const allDone = state.session!.files.every(
+				(f) => f.status === "done" || f.status === "skipped"
+			)
 			if (allDone) setState("session", "status", "finished")
 		}
 	}
@@ -642,6 +827,8 @@ export function createTuiStore(
 
 	const runSendQueue = async (device: DiscoveredDevice) => {
 		const selection = state.selection
+		const abort = new AbortController()
+		sendAbort = abort
 		let hadError = false
 		for (let i = 0; i < selection.length; i++) {
 			if (cancelRequested) {
@@ -653,19 +840,29 @@ export function createTuiStore(
 			const item = selection[i]!
 			const result =
 				item.kind === "file"
-					? await deps.sendPath(deviceInfo, device, item.path)
-					: await deps.sendText(deviceInfo, device, item.content)
-			// Re-check after the await: if the user hit cancel while this file was in
-			// flight, honor it now instead of marking it done and finishing the queue
-			// (the underlying upload has no abort, but the session reflects the cancel).
+					? await deps.sendPath(
+							deviceInfo,
+							device,
+							item.path,
+							(sent, _total, speed) => {
+								// Stale progress from an upload the user already canceled must not
+								// touch the settled session.
+								if (cancelRequested || state.session?.status !== "sending") return
+								setState("session", "files", i, "received", sent)
+								setState("session", "speed", speed)
+							},
+							abort.signal
+						)
+					: await deps.sendText(deviceInfo, device, item.content, abort.signal)
+			// Re-check after the await: a cancel while this file was in flight aborted
+			// it, so settle as canceled instead of reporting the aborted upload as failed.
 			if (cancelRequested) {
 				setState("session", { status: "canceledBySender", doneAt: deps.now() })
 				return
 			}
 			if (result.ok) {
 				setState("session", "files", i, { status: "done", received: state.session!.files[i]!.size })
-				// A single-POST upload exposes no intra-file progress, so we report an
-				// aggregate average (bytes completed / elapsed) as each file settles —
+				// Between files, show the aggregate average (bytes completed / elapsed),
 				// the same shape the receiver's transfer summary uses.
 				const elapsedMs = deps.now() - state.session!.startedAt
 				if (elapsedMs > 0) {
@@ -692,16 +889,18 @@ export function createTuiStore(
 		if (!state.session) return
 		if (state.session.direction === "send" && state.session.status === "sending") {
 			cancelRequested = true
+			sendAbort?.abort()
 		} else if (
 			state.session.direction === "receive" &&
 			(state.session.status === "sending" || state.session.status === "waiting")
 		) {
-			// A receive has no sender-side abort and no error callback, so an
-			// upload that errors or disconnects mid-flight would otherwise pin the
-			// session in "sending" forever — and the busy-guard in `handleIncoming`
-			// would then reject every future transfer until restart. Let the user
-			// settle a stuck receive so its overlay is dismissible and the receiver
-			// is no longer treated as busy.
+			// Abort the uploads on the server so partial files are removed. Settle
+			// the overlay even if the server already forgot the session: an upload
+			// that errors or disconnects mid-flight reports no error, and would
+			// otherwise pin the session in "sending" forever — the busy-guard in
+			// `handleIncoming` would then reject every future transfer until restart.
+			if (receiveSessionId) server?.cancelSession(receiveSessionId)
+			receiveSessionId = null
 			setState("session", { status: "canceledByReceiver", doneAt: deps.now() })
 		}
 	}
@@ -835,6 +1034,9 @@ export function createTuiStore(
 		// incoming
 		acceptIncoming,
 		declineIncoming,
+		moveIncomingCursor,
+		toggleIncomingFile,
+		resolveCollision,
 		// sending
 		sendToDevice,
 		cancelSession,
@@ -19,14 +19,14 @@ export interface MemoryControls {
 	fireRequest: (
 		info: DeviceInfo,
 		files: Record<string, FileMetadata>
-	) => Promise<boolean> | undefined
+	) => Promise<boolean | string[]> | undefined
 }
 
 /** Fully stubbed deps with control handles for driving discovery/requests in tests. */
 export function memoryControls(persist: Persist = memoryPersist()): MemoryControls {
 	let discoveredCb: ((device: DeviceInfo) => void) | null = null
 	let requestHandler:
-		| ((info: DeviceInfo, files: Record<string, FileMetadata>) => Promise<boolean>)
+		| ((info: DeviceInfo, files: Record<string, FileMetadata>) => Promise<boolean | string[]>)
 		| null = null
 	const deps: TuiDeps = {
 		createDiscovery: () => ({
@@ -40,7 +40,7 @@ export function memoryControls(persist: Persist = memoryPersist()): MemoryContro
 		createScanner: () => ({ onDeviceDiscovered: () => {}, startScan: async () => {} }),
 		createServer: (_info, options) => {
 			requestHandler = options?.onTransferRequest ?? null
-			return { start: async () => {}, stop: async () => {} }
+			return { start: async () => {}, stop: async () => {}, cancelSession: () => false }
 		},
 		sendText: async () => ({ ok: true, message: "sent" }),
 		sendPath: async () => ({ ok: true, message: "sent" }),
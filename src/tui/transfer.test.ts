@@ -1,51 +1,37 @@
 import { expect, test } from "bun:test"
-import { createHash } from "node:crypto"
-import { existsSync } from "node:fs"
-import { readFile } from "node:fs/promises"
-import { getDeviceInfo } from "../index.ts"
+import { getDeviceInfo, LocalSendError } from "../index.ts"
 import {
-	buildFileMetadata,
 	sendFileToDevice,
 	sendPathToDevice,
 	sendTextToDevice,
 	type DiscoveredDevice,
+	type MessageClient,
 	type SendFileFn
 } from "./transfer.ts"
 
 const info = getDeviceInfo({ alias: "TestDevice", port: 53317, enableDownloadApi: false })
 const device: DiscoveredDevice = { ...info, alias: "Peer", ip: "127.0.0.1" }
 
-test("buildFileMetadata for a text message", () => {
-	const buffer = Buffer.from("hello")
-	const meta = buildFileMetadata("/tmp/x.txt", buffer, true)
-	expect(meta.fileName).toBe("message.txt")
-	expect(meta.fileType).toBe("text/plain")
-	expect(meta.preview).toBe("hello")
-	expect(meta.size).toBe(5)
-	expect(meta.sha256).toBe(createHash("sha256").update(buffer).digest("hex"))
-	expect(meta.id).toBe(createHash("md5").update("/tmp/x.txt").digest("hex"))
-})
-
-test("buildFileMetadata for a binary file", () => {
-	const meta = buildFileMetadata("/some/dir/photo.png", Buffer.from([1, 2, 3]), false)
-	expect(meta.fileName).toBe("photo.png")
-	expect(meta.fileType).toBe("application/octet-stream")
-	expect(meta.preview).toBeUndefined()
+test("sendTextToDevice hands the text to sendMessage", async () => {
+	const sent: string[] = []
+	const client: MessageClient = {
+		sendMessage: async (_target, text) => {
+			sent.push(text)
+		}
+	}
+	const result = await sendTextToDevice(info, device, "hi there", undefined, client)
+	expect(result).toEqual({ ok: true, message: "Text message delivered" })
+	expect(sent).toEqual(["hi there"])
 })
 
-test("sendTextToDevice writes temp file, sends it, cleans up", async () => {
-	let sentPath = ""
-	let sentContent = ""
-	const fakeSend: SendFileFn = async (_info, _device, filePath, isText) => {
-		sentPath = filePath
-		sentContent = await readFile(filePath, "utf8")
-		expect(isText).toBe(true)
-		return { ok: true, message: "ok" }
+test("sendTextToDevice shows the error's own message, not the HTTP status", async () => {
+	const client: MessageClient = {
+		sendMessage: async () => {
+			throw LocalSendError.fromStatus(401, true)
+		}
 	}
-	const result = await sendTextToDevice(info, device, "hi there", fakeSend)
-	expect(result.ok).toBe(true)
-	expect(sentContent).toBe("hi there")
-	expect(existsSync(sentPath)).toBe(false)
+	const result = await sendTextToDevice(info, device, "hi", undefined, client)
+	expect(result).toEqual({ ok: false, message: "Wrong PIN — try again" })
 })
 
 test("sendFileToDevice surfaces the failure reason instead of a bare 'Upload failed'", async () => {
@@ -58,16 +44,23 @@ test("sendFileToDevice surfaces the failure reason instead of a bare 'Upload fai
 		port: 1,
 		protocol: "http"
 	}
-	const result = await sendFileToDevice(info, dead, import.meta.path, false)
+	const result = await sendFileToDevice(info, dead, import.meta.path)
 	expect(result.ok).toBe(false)
-	expect(result.message).toMatch(/^Failed to prepare upload: .+/)
+	expect(result.message).toMatch(/^Could not reach the device: .+/)
 })
 
 test("sendPathToDevice includes the underlying error when the send throws", async () => {
 	const throwing: SendFileFn = async () => {
 		throw new Error("kaboom")
 	}
-	const result = await sendPathToDevice(info, device, import.meta.path, throwing)
+	const result = await sendPathToDevice(
+		info,
+		device,
+		import.meta.path,
+		undefined,
+		undefined,
+		throwing
+	)
 	expect(result.ok).toBe(false)
 	expect(result.message).toContain("kaboom")
 })
@@ -78,7 +71,14 @@ test("sendPathToDevice rejects a missing file without calling send", async () =>
 		called = true
 		return { ok: true, message: "" }
 	}
-	const result = await sendPathToDevice(info, device, "/definitely/not/here.bin", fakeSend)
+	const result = await sendPathToDevice(
+		info,
+		device,
+		"/definitely/not/here.bin",
+		undefined,
+		undefined,
+		fakeSend
+	)
 	expect(result.ok).toBe(false)
 	expect(result.message).toBe("File not found or inaccessible")
 	expect(called).toBe(false)
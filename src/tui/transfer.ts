@@ -1,9 +1,7 @@
-import { createHash } from "node:crypto"
-import { readFile, stat, unlink, writeFile } from "node:fs/promises"
-import os from "node:os"
-import path from "node:path"
-import { LocalSendClient } from "../index.ts"
-import type { DeviceInfo, FileMetadata } from "../index.ts"
+import { stat } from "node:fs/promises"
+import { buildFileMetadataFromPath } from "../core/files.ts"
+import { LocalSendClient, LocalSendError } from "../index.ts"
+import type { DeviceInfo } from "../index.ts"
 
 /** A device discovered on the network — always carries a resolved IP. */
 export interface DiscoveredDevice extends DeviceInfo {
@@ -15,90 +13,83 @@ export interface SendResult {
 	message: string
 }
 
-const errText = (err: unknown): string => (err instanceof Error ? err.message : String(err))
+/** Bytes of the current file sent so far, its size, and the smoothed speed. */
+export type SendProgressFn = (sent: number, total: number, speed: number) => void
 
-/** Append a concrete reason to a base failure message when one is available. */
-const withReason = (base: string, reason: string | null | undefined): string =>
-	reason ? `${base}: ${reason}` : base
+const errText = (err: unknown): string => (err instanceof Error ? err.message : String(err))
 
-export function buildFileMetadata(
-	filePath: string,
-	fileBuffer: Buffer,
-	isTextMessage: boolean
-): FileMetadata {
-	return {
-		id: createHash("md5").update(filePath).digest("hex"),
-		fileName: isTextMessage ? "message.txt" : path.basename(filePath),
-		size: fileBuffer.length,
-		fileType: isTextMessage ? "text/plain" : "application/octet-stream",
-		sha256: createHash("sha256").update(fileBuffer).digest("hex"),
-		preview: isTextMessage ? fileBuffer.toString("utf8") : undefined,
-		metadata: {
-			modified: new Date().toISOString()
-		}
-	}
-}
+/** Append a concrete reason to a base failure message. */
+const withReason = (base: string, reason: string): string => `${base}: ${reason}`
 
 export async function sendFileToDevice(
 	deviceInfo: DeviceInfo,
 	device: DiscoveredDevice,
 	filePath: string,
-	isTextMessage: boolean
+	onProgress?: SendProgressFn,
+	signal?: AbortSignal
 ): Promise<SendResult> {
 	const client = new LocalSendClient(deviceInfo)
-	const fileBuffer = await readFile(filePath)
-	const fileMetadata = buildFileMetadata(filePath, fileBuffer, isTextMessage)
+	if (onProgress) {
+		client.setProgressCallback((sent, total, finished, speed) => {
+			if (!finished) onProgress(sent, total, speed)
+		})
+	}
+	// Streams the file through the hash; a disk image must not be loaded into memory.
+	const { fileMetadata } = await buildFileMetadataFromPath(filePath)
 	const target = {
 		ip: device.ip,
 		port: device.port,
 		protocol: device.protocol || "https"
 	}
 
-	const uploadPrepare = await client.prepareUpload(target, {
-		[fileMetadata.id]: fileMetadata
-	})
-	if (!uploadPrepare) {
-		return { ok: false, message: withReason("Failed to prepare upload", client.getLastError()) }
-	}
+	try {
+		const uploadPrepare = await client.prepareUpload(
+			target,
+			{ [fileMetadata.id]: fileMetadata },
+			undefined,
+			signal
+		)
+		const fileToken = uploadPrepare.files?.[fileMetadata.id]
+		if (!fileToken) return { ok: false, message: "No file token returned" }
 
-	const fileToken = uploadPrepare.files?.[fileMetadata.id]
-	if (!fileToken) {
-		if (isTextMessage) {
-			return { ok: true, message: "Text message delivered" }
-		}
-		return { ok: false, message: "No file token returned" }
+		await client.uploadFile(
+			target,
+			uploadPrepare.sessionId,
+			fileMetadata.id,
+			fileToken,
+			filePath,
+			signal
+		)
+		return { ok: true, message: "File sent successfully" }
+	} catch (err) {
+		// LocalSendError messages are written for the user ("Wrong PIN — try again").
+		if (err instanceof LocalSendError) return { ok: false, message: err.message }
+		throw err
 	}
-
-	const success = await client.uploadFile(
-		target,
-		uploadPrepare.sessionId,
-		fileMetadata.id,
-		fileToken,
-		filePath
-	)
-	return success
-		? { ok: true, message: "File sent successfully" }
-		: { ok: false, message: withReason("Upload failed", client.getLastError()) }
 }
 
 export type SendFileFn = typeof sendFileToDevice
 
+export type MessageClient = Pick<LocalSendClient, "sendMessage">
+
 export async function sendTextToDevice(
 	deviceInfo: DeviceInfo,
 	device: DiscoveredDevice,
 	message: string,
-	send: SendFileFn = sendFileToDevice
+	signal?: AbortSignal,
+	client: MessageClient = new LocalSendClient(deviceInfo)
 ): Promise<SendResult> {
-	const tempFilePath = path.join(os.tmpdir(), `localsend-message-${Date.now()}.txt`)
+	const target = {
+		ip: device.ip,
+		port: device.port,
+		protocol: device.protocol || "https"
+	}
 	try {
-		await writeFile(tempFilePath, message)
-		return await send(deviceInfo, device, tempFilePath, true)
+		await client.sendMessage(target, message, undefined, signal)
+		return { ok: true, message: "Text message delivered" }
 	} catch (err) {
+		if (err instanceof LocalSendError) return { ok: false, message: err.message }
 		return { ok: false, message: withReason("Failed to send message", errText(err)) }
-	} finally {
-		try {
-			await unlink(tempFilePath)
-		} catch {}
 	}
 }
 
@@ -106,6 +97,8 @@ export async function sendPathToDevice(
 	deviceInfo: DeviceInfo,
 	device: DiscoveredDevice,
 	filePath: string,
+	onProgress?: SendProgressFn,
+	signal?: AbortSignal,
 	send: SendFileFn = sendFileToDevice
 ): Promise<SendResult> {
 	try {
@@ -114,7 +107,7 @@ export async function sendPathToDevice(
 		return { ok: false, message: "File not found or inaccessible" }
 	}
 	try {
-		return await send(deviceInfo, device, filePath, false)
+		return await send(deviceInfo, device, filePath, onProgress, signal)
 	} catch (err) {
 		return { ok: false, message: withReason("Upload failed", errText(err)) }
 	}
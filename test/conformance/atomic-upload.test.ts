@@ -0,0 +1,134 @@
+import { test, expect } from "bun:test"
+import { existsSync } from "node:fs"
+import { mkdir, readdir, utimes, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { PARTIAL_FILE_SUFFIX } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+
+test("an in-flight upload is invisible under its final name until it completes", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true
+	})
+	try {
+		const base = "http://localhost/api/localsend/v2"
+		const prep = await server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({
+					info,
+					files: { f1: { id: "f1", fileName: "movie.bin", size: 8, fileType: "video/mp4" } }
+				})
+			})
+		)
+		const { sessionId, files } = (await prep.json()) as any
+
+		let controller!: ReadableStreamDefaultController<Uint8Array>
+		const body = new ReadableStream<Uint8Array>({
+			start: (c) => {
+				controller = c
+			}
+		})
+		const pending = server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+				method: "POST",
+				headers: { "content-length": "8" },
+				body,
+				// @ts-expect-error -- required for streaming request bodies outside Bun
+				duplex: "half"
+			})
+		)
+
+		controller.enqueue(new Uint8Array(4).fill(1))
+		await Bun.sleep(50)
+		const midway = await readdir(dir)
+		expect(midway).not.toContain("movie.bin")
+		expect(midway.some((name) => name.startsWith(".") && name.endsWith(PARTIAL_FILE_SUFFIX))).toBe(
+			true
+		)
+
+		controller.enqueue(new Uint8Array(4).fill(2))
+		controller.close()
+		expect((await pending).status).toBe(200)
+		expect(await readdir(dir)).toEqual(["movie.bin"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("start() removes temp files orphaned by an earlier run, not fresh ones", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const orphan = path.join(dir, "sub", `.clip.mp4.deadbeef${PARTIAL_FILE_SUFFIX}`)
+	// Possibly an upload in progress in another process using the same folder.
+	const fresh = path.join(dir, `.song.mp3.cafebabe${PARTIAL_FILE_SUFFIX}`)
+	const keeper = path.join(dir, "keep.txt")
+	await mkdir(path.dirname(orphan), { recursive: true })
+	await writeFile(orphan, "half")
+	const twoHoursAgo = new Date(Date.now() - 2 * 3_600_000)
+	await utimes(orphan, twoHoursAgo, twoHoursAgo)
+	await writeFile(fresh, "growing")
+	await writeFile(keeper, "whole")
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir
+	})
+	try {
+		await server.start()
+		expect(existsSync(orphan)).toBe(false)
+		expect(existsSync(fresh)).toBe(true)
+		expect(existsSync(keeper)).toBe(true)
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+	}
+})
+
+test("a name close to the 255-byte limit still uploads under its full name", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true
+	})
+	const fileName = "照片".repeat(38) + ".jpg"
+	try {
+		const base = "http://localhost/api/localsend/v2"
+		const prep = await server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({
+					info,
+					files: { f1: { id: "f1", fileName, size: 3, fileType: "image/jpeg" } }
+				})
+			})
+		)
+		const { sessionId, files } = (await prep.json()) as any
+		const res = await server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+				method: "POST",
+				body: new Uint8Array([1, 2, 3])
+			})
+		)
+		expect(res.status).toBe(200)
+		expect(await readdir(dir)).toEqual([fileName])
+	} finally {
+		await rmTemp(dir)
+	}
+})
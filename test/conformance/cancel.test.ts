@@ -0,0 +1,100 @@
+import { test, expect } from "bun:test"
+import { readdir } from "node:fs/promises"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { PARTIAL_FILE_SUFFIX } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const base = "http://localhost/api/localsend/v2"
+
+/** Start an 8-byte upload, send half of it and wait until its partial file exists. */
+async function halfUploaded() {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const created: string[] = []
+	const canceled: { sessionId: string; by: string; alias: string }[] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true,
+		onSessionCreated: (sessionId) => created.push(sessionId),
+		onSessionCanceled: (sessionId, by, senderInfo) =>
+			canceled.push({ sessionId, by, alias: senderInfo.alias })
+	})
+	const prep = await server.app.fetch(
+		new Request(`${base}/prepare-upload`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: { f1: { id: "f1", fileName: "movie.bin", size: 8, fileType: "video/mp4" } }
+			})
+		})
+	)
+	const { sessionId, files } = (await prep.json()) as any
+	expect(created).toEqual([sessionId])
+
+	let controller!: ReadableStreamDefaultController<Uint8Array>
+	const bodyState = { canceled: false }
+	const body = new ReadableStream<Uint8Array>({
+		start: (c) => {
+			controller = c
+		},
+		cancel: () => {
+			bodyState.canceled = true
+		}
+	})
+	const pending = server.app.fetch(
+		new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+			method: "POST",
+			body,
+			// @ts-expect-error -- required for streaming request bodies outside Bun
+			duplex: "half"
+		})
+	)
+	controller.enqueue(new Uint8Array(4).fill(1))
+	await Bun.sleep(50)
+	expect((await readdir(dir)).some((name) => name.endsWith(PARTIAL_FILE_SUFFIX))).toBe(true)
+	return { dir, server, sessionId, pending, bodyState, canceled }
+}
+
+test("cancelSession aborts an in-flight upload and removes its partial file", async () => {
+	const { dir, server, sessionId, pending, bodyState, canceled } = await halfUploaded()
+	try {
+		expect(server.cancelSession(sessionId)).toBe(true)
+		const res = await pending
+		expect(res.status).toBe(409)
+		expect(bodyState.canceled).toBe(true)
+		expect(await readdir(dir)).toEqual([])
+		expect(canceled).toEqual([{ sessionId, by: "receiver", alias: "x" }])
+		// Already gone: a second cancel is a no-op and fires nothing.
+		expect(server.cancelSession(sessionId)).toBe(false)
+		expect(canceled.length).toBe(1)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a sender's /cancel aborts its in-flight upload too", async () => {
+	const { dir, server, sessionId, pending, canceled } = await halfUploaded()
+	try {
+		const res = await server.app.fetch(
+			new Request(`${base}/cancel?sessionId=${sessionId}`, { method: "POST" })
+		)
+		expect(res.status).toBe(200)
+		expect((await pending).status).toBe(409)
+		expect(await readdir(dir)).toEqual([])
+		expect(canceled).toEqual([{ sessionId, by: "sender", alias: "x" }])
+	} finally {
+		await rmTemp(dir)
+	}
+})
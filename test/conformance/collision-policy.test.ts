@@ -0,0 +1,137 @@
+import { test, expect } from "bun:test"
+import { readdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer, type CollisionHandler } from "../../src/server/server.ts"
+import type { CollisionPolicy } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+// sha256("new")
+const newSha256 = "11507a0e2f5e69d5dfa40a62a1bd7b6ee57e6bcd85c67c9b8431b36fff21c437"
+const base = "http://localhost/api/localsend/v2"
+
+/** Receive "new" as a.txt into a directory that already holds `existing` under that name. */
+async function receiveOver(
+	existing: string,
+	options: { collisionPolicy?: CollisionPolicy; onCollision?: CollisionHandler } = {}
+) {
+	const dir = await tempDir()
+	await writeFile(path.join(dir, "a.txt"), existing)
+	const port = await getFreePort()
+	const events: { fileId: string; finished?: boolean; skipped?: boolean }[] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		...options,
+		onTransferRequest: async () => true,
+		onTransferProgress: async (
+			fileId,
+			_name,
+			_received,
+			_total,
+			_speed,
+			finished,
+			transferInfo
+		) => {
+			events.push({ fileId, finished, skipped: transferInfo?.skipped })
+		}
+	})
+	const prep = await server.app.fetch(
+		new Request(`${base}/prepare-upload`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: {
+					f1: { id: "f1", fileName: "a.txt", size: 3, fileType: "text/plain", sha256: newSha256 }
+				}
+			})
+		})
+	)
+	const { sessionId, files } = (await prep.json()) as any
+	const res = await server.app.fetch(
+		new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+			method: "POST",
+			body: "new"
+		})
+	)
+	expect(res.status).toBe(200)
+	const names = (await readdir(dir)).sort()
+	const contents = await Promise.all(names.map((n) => readFile(path.join(dir, n), "utf8")))
+	return { dir, names, contents, events }
+}
+
+test("rename is the default and keeps both files", async () => {
+	const { dir, names, contents } = await receiveOver("old")
+	try {
+		expect(names).toEqual(["a (1).txt", "a.txt"])
+		expect(contents).toEqual(["new", "old"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("overwrite replaces the existing file", async () => {
+	const { dir, names, contents } = await receiveOver("old", { collisionPolicy: "overwrite" })
+	try {
+		expect(names).toEqual(["a.txt"])
+		expect(contents).toEqual(["new"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("skip-if-identical keeps an identical file and reports it as skipped", async () => {
+	const { dir, names, events } = await receiveOver("new", { collisionPolicy: "skip-if-identical" })
+	try {
+		expect(names).toEqual(["a.txt"])
+		expect(events).toEqual([{ fileId: "f1", finished: true, skipped: true }])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("skip-if-identical renames when the contents differ", async () => {
+	const { dir, names } = await receiveOver("old", { collisionPolicy: "skip-if-identical" })
+	try {
+		expect(names).toEqual(["a (1).txt", "a.txt"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("ask defers to onCollision", async () => {
+	const asked: string[] = []
+	const { dir, names, contents } = await receiveOver("old", {
+		collisionPolicy: "ask",
+		onCollision: async (file, existingPath, sender) => {
+			asked.push(`${file.fileName} ${path.basename(existingPath)} ${sender.alias}`)
+			return "skip"
+		}
+	})
+	try {
+		expect(asked).toEqual(["a.txt a.txt x"])
+		expect(names).toEqual(["a.txt"])
+		expect(contents).toEqual(["old"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("ask without a handler falls back to rename", async () => {
+	const { dir, names } = await receiveOver("old", { collisionPolicy: "ask" })
+	try {
+		expect(names).toEqual(["a (1).txt", "a.txt"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,70 @@
+import { test, expect } from "bun:test"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const files = {
+	f1: { id: "f1", fileName: "a.bin", size: 600, fileType: "application/octet-stream" },
+	f2: { id: "f2", fileName: "b.bin", size: 400, fileType: "application/octet-stream" }
+}
+
+async function prepare(
+	freeBytes: number,
+	options: { diskSpaceMargin?: number; accept?: boolean | string[] } = {}
+) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const queried: string[] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		diskSpaceMargin: options.diskSpaceMargin ?? 0,
+		freeSpaceProvider: async (saveDir) => {
+			queried.push(saveDir)
+			return freeBytes
+		},
+		onTransferRequest: async () => options.accept ?? true
+	})
+	const res = await server.app.fetch(
+		new Request("http://localhost/api/localsend/v2/prepare-upload", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ info, files })
+		})
+	)
+	await rmTemp(dir)
+	return { res, queried, dir }
+}
+
+test("prepare-upload replies 507 when the accepted files do not fit", async () => {
+	const { res, queried, dir } = await prepare(999)
+	expect(res.status).toBe(507)
+	const body = (await res.json()) as any
+	expect(body.message).toContain("Insufficient storage")
+	expect(body.sessionId).toBeUndefined()
+	expect(queried).toEqual([dir])
+})
+
+test("prepare-upload succeeds when the accepted files fit exactly", async () => {
+	const { res } = await prepare(1000)
+	expect(res.status).toBe(200)
+})
+
+test("only the accepted files count towards the required space", async () => {
+	const { res } = await prepare(400, { accept: ["f2"] })
+	expect(res.status).toBe(200)
+})
+
+test("the safety margin must stay free on top of the transfer", async () => {
+	expect((await prepare(1500, { diskSpaceMargin: 500 })).res.status).toBe(200)
+	expect((await prepare(1499, { diskSpaceMargin: 500 })).res.status).toBe(507)
+})
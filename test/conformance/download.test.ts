@@ -54,3 +54,27 @@ test("prepare-download requires correct PIN", async () => {
 		await rmTemp(dir)
 	}
 })
+
+test("shared files are typed by extension or content, in prepare-download and on download", async () => {
+	const dir = await tempDir()
+	const png = path.join(dir, "picture")
+	const notes = path.join(dir, "notes.md")
+	await Bun.write(png, new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]))
+	await Bun.write(notes, "# notes\n")
+	const sharer = await startSharer([png, notes])
+	try {
+		const base = `http://127.0.0.1:${sharer.port}/api/localsend/v2`
+		const body = (await (await fetch(`${base}/prepare-download`, { method: "POST" })).json()) as any
+		const types: Record<string, string> = {}
+		for (const [fileId, file] of Object.entries<any>(body.files)) {
+			const dl = await fetch(`${base}/download?sessionId=${body.sessionId}&fileId=${fileId}`)
+			await dl.arrayBuffer()
+			expect(dl.headers.get("content-type")).toBe(file.fileType)
+			types[file.fileName] = file.fileType
+		}
+		expect(types).toEqual({ picture: "image/png", "notes.md": "text/markdown" })
+	} finally {
+		await sharer.stop()
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,243 @@
+import { test, expect } from "bun:test"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import type { ServerEventName } from "../../src/server/events.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const base = "http://localhost/api/localsend/v2"
+const EVENTS: ServerEventName[] = [
+	"sessionCreated",
+	"sessionRejected",
+	"fileStarted",
+	"fileProgress",
+	"fileCompleted",
+	"fileFailed",
+	"sessionCompleted",
+	"sessionCanceled",
+	"deviceRegistered"
+]
+
+async function makeServer(accept: boolean | string[] = true) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => accept
+	})
+	const log: { name: ServerEventName; event: any }[] = []
+	for (const name of EVENTS) server.on(name, (event) => log.push({ name, event }))
+	const prepare = async (files: Record<string, unknown>) =>
+		server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json", "x-forwarded-for": "10.0.0.9" },
+				body: JSON.stringify({ info, files })
+			})
+		)
+	const upload = (sessionId: string, fileId: string, token: string, body: string) =>
+		server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=${fileId}&token=${token}`, {
+				method: "POST",
+				body
+			})
+		)
+	return { dir, server, log, prepare, upload }
+}
+
+const file = (id: string, sha256?: string) => ({
+	id,
+	fileName: `${id}.txt`,
+	size: 3,
+	fileType: "text/plain",
+	sha256
+})
+
+test("a full transfer emits its lifecycle in order", async () => {
+	const { dir, log, prepare, upload } = await makeServer()
+	try {
+		const prep = await prepare({ a: file("a"), b: file("b") })
+		const { sessionId, files } = (await prep.json()) as any
+		await upload(sessionId, "a", files.a, "abc")
+		await upload(sessionId, "b", files.b, "def")
+
+		expect(log.map((e) => e.name)).toEqual([
+			"sessionCreated",
+			"fileStarted",
+			"fileProgress",
+			"fileCompleted",
+			"fileStarted",
+			"fileProgress",
+			"fileCompleted",
+			"sessionCompleted"
+		])
+		const created = log[0]!.event
+		expect(created.sessionId).toBe(sessionId)
+		expect(created.sender).toMatchObject({ alias: "x", ip: "10.0.0.9" })
+		expect(created.acceptedFileIds).toEqual(["a", "b"])
+		expect(log[2]!.event).toMatchObject({ sessionId, fileId: "a", received: 3 })
+		expect(log[3]!.event).toMatchObject({
+			sessionId,
+			fileId: "a",
+			file: { fileName: "a.txt" },
+			sender: { fingerprint: "fp" },
+			verified: false,
+			skipped: false
+		})
+		expect(log[7]!.event.files.map((f: any) => f.id)).toEqual(["a", "b"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a declined request emits sessionRejected", async () => {
+	const { dir, log, prepare } = await makeServer(false)
+	try {
+		expect((await prepare({ a: file("a") })).status).toBe(403)
+		expect(log).toEqual([
+			{
+				name: "sessionRejected",
+				event: expect.objectContaining({ reason: "declined", sender: expect.anything() })
+			}
+		])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a failed upload emits fileFailed with its status", async () => {
+	const { dir, log, prepare, upload } = await makeServer()
+	try {
+		const { sessionId, files } = (await (
+			await prepare({ a: file("a", "0".repeat(64)) })
+		).json()) as any
+		expect((await upload(sessionId, "a", files.a, "abc")).status).toBe(400)
+		expect(log.at(-1)).toMatchObject({
+			name: "fileFailed",
+			event: {
+				sessionId,
+				fileId: "a",
+				status: 400,
+				message: "Integrity check failed: sha256 mismatch"
+			}
+		})
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("cancelSession emits sessionCanceled by the receiver", async () => {
+	const { dir, server, log, prepare } = await makeServer()
+	try {
+		const { sessionId } = (await (await prepare({ a: file("a") })).json()) as any
+		server.cancelSession(sessionId)
+		expect(log.at(-1)).toMatchObject({
+			name: "sessionCanceled",
+			event: { sessionId, by: "receiver" }
+		})
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("register emits deviceRegistered with the caller's address", async () => {
+	const { dir, server, log } = await makeServer()
+	try {
+		await server.app.fetch(
+			new Request(`${base}/register`, {
+				method: "POST",
+				headers: { "content-type": "application/json", "x-forwarded-for": "10.0.0.7" },
+				body: JSON.stringify(info)
+			})
+		)
+		expect(log).toEqual([
+			{ name: "deviceRegistered", event: { device: expect.objectContaining({ ip: "10.0.0.7" }) } }
+		])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("the positional callbacks still work as adapters", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const progress: unknown[][] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true,
+		onTransferProgress: async (...args) => {
+			progress.push(args)
+		}
+	})
+	try {
+		const prep = await server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({ info, files: { a: file("a") } })
+			})
+		)
+		const { sessionId, files } = (await prep.json()) as any
+		await server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=a&token=${files.a}`, {
+				method: "POST",
+				body: "abc"
+			})
+		)
+		expect(progress[0]!.slice(0, 4)).toEqual(["a", "a.txt", 3, 3])
+		const last = progress.at(-1)!
+		expect(last[5]).toBe(true)
+		expect(last[6]).toMatchObject({ verified: false, skipped: false })
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("fileProgress is throttled and carries session totals", async () => {
+	const { dir, log, prepare, server } = await makeServer()
+	try {
+		const chunk = new Uint8Array(1024).fill(1)
+		const big = {
+			id: "big",
+			fileName: "big.bin",
+			size: 64 * 1024,
+			fileType: "application/octet-stream"
+		}
+		const { sessionId, files } = (await (await prepare({ big, a: file("a") })).json()) as any
+		let sent = 0
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (sent === 64) return controller.close()
+				sent++
+				controller.enqueue(chunk)
+			}
+		})
+		const res = await server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=big&token=${files.big}`, {
+				method: "POST",
+				body,
+				// @ts-expect-error Bun's fetch types lack duplex
+				duplex: "half"
+			})
+		)
+		expect(res.status).toBe(200)
+		const progress = log.filter((e) => e.name === "fileProgress").map((e) => e.event)
+		expect(progress.length).toBeLessThan(64)
+		expect(progress.at(-1)).toMatchObject({
+			received: 64 * 1024,
+			etaSeconds: 0,
+			session: { received: 64 * 1024, total: 64 * 1024 + 3, filesCompleted: 1, filesTotal: 2 }
+		})
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,90 @@
+import { test, expect } from "bun:test"
+import { existsSync } from "node:fs"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+
+async function withServer(
+	decide: () => Promise<boolean | string[]>,
+	run: (server: LocalSendServer, dir: string) => Promise<void>
+) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: decide
+	})
+	try {
+		await run(server, dir)
+	} finally {
+		await rmTemp(dir)
+	}
+}
+
+const prepare = (server: LocalSendServer) =>
+	server.app.fetch(
+		new Request("http://localhost/api/localsend/v2/prepare-upload", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: {
+					f1: { id: "f1", fileName: "one.txt", size: 3, fileType: "text/plain" },
+					f2: { id: "f2", fileName: "two.txt", size: 3, fileType: "text/plain" }
+				}
+			})
+		})
+	)
+
+test("prepare-upload issues tokens only for the files the handler accepted", async () => {
+	await withServer(
+		async () => ["f2", "not-offered"],
+		async (server, dir) => {
+			const res = await prepare(server)
+			expect(res.status).toBe(200)
+			const { sessionId, files } = (await res.json()) as any
+			expect(Object.keys(files)).toEqual(["f2"])
+
+			// The declined file never got a token, so it cannot be uploaded.
+			const declined = await server.app.fetch(
+				new Request(
+					`http://localhost/api/localsend/v2/upload?sessionId=${sessionId}&fileId=f1&token=${files.f2}`,
+					{ method: "POST", body: "abc" }
+				)
+			)
+			expect(declined.status).toBe(403)
+			expect(existsSync(path.join(dir, "one.txt"))).toBe(false)
+
+			const up = await server.app.fetch(
+				new Request(
+					`http://localhost/api/localsend/v2/upload?sessionId=${sessionId}&fileId=f2&token=${files.f2}`,
+					{ method: "POST", body: "abc" }
+				)
+			)
+			expect(up.status).toBe(200)
+			expect(existsSync(path.join(dir, "two.txt"))).toBe(true)
+		}
+	)
+})
+
+test("an empty selection is treated as a rejection", async () => {
+	await withServer(
+		async () => [],
+		async (server) => {
+			const res = await prepare(server)
+			expect(res.status).toBe(403)
+		}
+	)
+})
@@ -0,0 +1,110 @@
+import { test, expect } from "bun:test"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { NodeServerAdapter } from "../../src/server/adapters/node.ts"
+import type { PinFailure } from "../../src/core/pin-guard.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+// Lockout is per socket address, so these go through a listening server: a
+// request without one (app.fetch) is never locked out.
+const base = (port: number) => `http://127.0.0.1:${port}/api/localsend/v2`
+
+test("prepare-upload answers 429 with Retry-After once the attempt limit is hit", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const failures: PinFailure[] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		pin: "123456",
+		pinAttempts: { maxAttempts: 3, lockoutMs: 30_000 },
+		onPinFailure: (failure) => failures.push(failure),
+		onTransferRequest: async () => true
+	})
+	const prepare = (pin?: string, headers: Record<string, string> = {}) =>
+		fetch(`${base(port)}/prepare-upload${pin === undefined ? "" : `?pin=${pin}`}`, {
+			method: "POST",
+			headers: { "content-type": "application/json", ...headers },
+			body: JSON.stringify({
+				info,
+				files: { f1: { id: "f1", fileName: "a.txt", size: 3, fileType: "text/plain" } }
+			})
+		})
+	await server.start()
+	try {
+		// Probing without a PIN is how clients learn one is needed; it never counts.
+		expect((await prepare()).status).toBe(401)
+		expect((await prepare()).status).toBe(401)
+		for (const guess of ["000000", "111111", "222222"]) {
+			const res = await prepare(guess)
+			expect(res.status).toBe(401)
+			expect(((await res.json()) as any).message).toBe("Invalid PIN")
+		}
+		expect(failures.map((f) => f.attempts)).toEqual([1, 2, 3])
+		expect(failures[2]!.lockedUntil).not.toBeNull()
+
+		const locked = await prepare("123456")
+		expect(locked.status).toBe(429)
+		expect(Number(locked.headers.get("retry-after"))).toBe(30)
+		// A forged X-Forwarded-For must not get a fresh counter.
+		expect((await prepare("123456", { "x-forwarded-for": "10.9.9.9" })).status).toBe(429)
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+	}
+})
+
+test("prepare-download shares the same lockout", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		pin: "123456",
+		pinAttempts: { maxAttempts: 1 }
+	})
+	const prepareDownload = (pin: string) =>
+		fetch(`${base(port)}/prepare-download?pin=${pin}`, { method: "POST" })
+	await server.start()
+	try {
+		expect((await prepareDownload("000000")).status).toBe(401)
+		expect((await prepareDownload("123456")).status).toBe(429)
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+	}
+})
+
+test("the Node adapter locks out by socket address too", async () => {
+	// @hono/node-server swaps in its own Request and Response; put Bun's back after.
+	const { Request, Response } = globalThis
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		pin: "123456",
+		pinAttempts: { maxAttempts: 2 },
+		serverAdapter: new NodeServerAdapter()
+	})
+	const prepareDownload = (pin: string) =>
+		fetch(`${base(port)}/prepare-download?pin=${pin}`, { method: "POST" })
+	await server.start()
+	try {
+		expect((await prepareDownload("000000")).status).toBe(401)
+		expect((await prepareDownload("111111")).status).toBe(401)
+		expect((await prepareDownload("123456")).status).toBe(429)
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+		Object.defineProperty(globalThis, "Request", { value: Request })
+		Object.defineProperty(globalThis, "Response", { value: Response })
+	}
+})
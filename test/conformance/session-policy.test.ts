@@ -0,0 +1,129 @@
+import { test, expect } from "bun:test"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import type { SessionPolicy } from "../../src/core/sessions.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const base = "http://localhost/api/localsend/v2"
+
+const sender = (fingerprint: string) => ({
+	alias: fingerprint,
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint,
+	port: 53317,
+	protocol: "http",
+	download: false
+})
+
+async function makeServer(
+	sessionPolicy?: SessionPolicy,
+	onTransferRequest: () => Promise<boolean> = async () => true
+) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		sessionPolicy,
+		onTransferRequest
+	})
+	const prepare = (fingerprint: string) =>
+		server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({
+					info: sender(fingerprint),
+					files: { f1: { id: "f1", fileName: "a.txt", size: 3, fileType: "text/plain" } }
+				})
+			})
+		)
+	const upload = (sessionId: string, token: string) =>
+		server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${token}`, {
+				method: "POST",
+				body: "abc"
+			})
+		)
+	const cancel = (sessionId: string) =>
+		server.app.fetch(new Request(`${base}/cancel?sessionId=${sessionId}`, { method: "POST" }))
+	return { dir, prepare, upload, cancel }
+}
+
+test("single: a second sender is blocked with 409 until the first session completes", async () => {
+	const { dir, prepare, upload } = await makeServer("single")
+	try {
+		const first = await prepare("a")
+		expect(first.status).toBe(200)
+		const { sessionId, files } = (await first.json()) as any
+
+		const blocked = await prepare("b")
+		expect(blocked.status).toBe(409)
+		expect(((await blocked.json()) as any).message).toBe("Blocked by another session")
+		// The same sender is blocked too: one session means one session.
+		expect((await prepare("a")).status).toBe(409)
+
+		expect((await upload(sessionId, files.f1)).status).toBe(200)
+		expect((await prepare("b")).status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("single: a canceled session frees the slot", async () => {
+	const { dir, prepare, cancel } = await makeServer("single")
+	try {
+		const { sessionId } = (await (await prepare("a")).json()) as any
+		expect((await prepare("b")).status).toBe(409)
+		await cancel(sessionId)
+		expect((await prepare("b")).status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("single: a request waiting on consent blocks others", async () => {
+	let decide: (accept: boolean) => void = () => {}
+	const { dir, prepare } = await makeServer(
+		"single",
+		() => new Promise<boolean>((resolve) => (decide = resolve))
+	)
+	try {
+		const pending = prepare("a")
+		await Bun.sleep(10)
+		expect((await prepare("b")).status).toBe(409)
+		decide(false)
+		expect((await pending).status).toBe(403)
+		// A declined request leaves no session behind.
+		decide = () => {}
+		const next = prepare("b")
+		await Bun.sleep(10)
+		decide(true)
+		expect((await next).status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("perSender: other senders proceed while the same sender is blocked", async () => {
+	const { dir, prepare } = await makeServer("perSender")
+	try {
+		expect((await prepare("a")).status).toBe(200)
+		expect((await prepare("a")).status).toBe(409)
+		expect((await prepare("b")).status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("unlimited is the default", async () => {
+	const { dir, prepare } = await makeServer()
+	try {
+		expect((await prepare("a")).status).toBe(200)
+		expect((await prepare("a")).status).toBe(200)
+		expect((await prepare("b")).status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,89 @@
+import { test, expect } from "bun:test"
+import { createHash } from "node:crypto"
+import { existsSync } from "node:fs"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const body = "hello world"
+const goodSha = createHash("sha256").update(body).digest("hex")
+
+async function upload(sha256: string | undefined) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const finished: Array<{ verified: boolean; sha256: string }> = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true,
+		onTransferProgress: async (_id, _name, _received, _total, _speed, done, transferInfo) => {
+			if (done && transferInfo) finished.push(transferInfo)
+		}
+	})
+	const base = "http://localhost/api/localsend/v2"
+	const prep = await server.app.fetch(
+		new Request(`${base}/prepare-upload`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: {
+					f1: { id: "f1", fileName: "a.txt", size: body.length, fileType: "text/plain", sha256 }
+				}
+			})
+		})
+	)
+	const { sessionId, files } = (await prep.json()) as any
+	const res = await server.app.fetch(
+		new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+			method: "POST",
+			body
+		})
+	)
+	return { dir, res, finished, saved: existsSync(path.join(dir, "a.txt")) }
+}
+
+test("a matching declared sha256 is accepted and reported as verified", async () => {
+	const { dir, res, finished, saved } = await upload(goodSha.toUpperCase())
+	try {
+		expect(res.status).toBe(200)
+		expect(saved).toBe(true)
+		expect(finished).toHaveLength(1)
+		expect(finished[0]).toMatchObject({ sha256: goodSha, verified: true })
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a mismatched sha256 deletes the file and rejects the upload", async () => {
+	const { dir, res, finished, saved } = await upload("0".repeat(64))
+	try {
+		expect(res.status).toBe(400)
+		expect(((await res.json()) as any).message).toContain("sha256 mismatch")
+		expect(saved).toBe(false)
+		expect(finished).toHaveLength(0)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("an upload without a declared sha256 is saved but not marked verified", async () => {
+	const { dir, res, finished, saved } = await upload(undefined)
+	try {
+		expect(res.status).toBe(200)
+		expect(saved).toBe(true)
+		expect(finished[0]?.verified).toBe(false)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,136 @@
+import { test, expect } from "bun:test"
+import { readdir } from "node:fs/promises"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import type { DeviceInfo } from "../../src/protocol/types.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const base = "http://localhost/api/localsend/v2"
+const info = {
+	alias: "Phone",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "mobile",
+	fingerprint: "fp-phone",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+
+async function makeServer(options: { pin?: string } = {}) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const messages: { sender: DeviceInfo; text: string }[] = []
+	let consentAsked = false
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		pin: options.pin,
+		onMessage: (sender, text) => messages.push({ sender, text }),
+		onTransferRequest: async () => {
+			consentAsked = true
+			return true
+		}
+	})
+	const prepare = (files: Record<string, unknown>, query = "") =>
+		server.app.fetch(
+			new Request(`${base}/prepare-upload${query}`, {
+				method: "POST",
+				headers: { "content-type": "application/json", "x-forwarded-for": "10.0.0.5" },
+				body: JSON.stringify({ info, files })
+			})
+		)
+	return { dir, messages, prepare, consentAsked: () => consentAsked }
+}
+
+const message = (preview: string | undefined) => ({
+	m: {
+		id: "m",
+		fileName: "message.txt",
+		size: Buffer.byteLength(preview ?? "hello"),
+		fileType: "text/plain",
+		preview
+	}
+})
+
+test("a text message is delivered and answered with 204, without files or consent", async () => {
+	const { dir, messages, prepare, consentAsked } = await makeServer()
+	try {
+		const res = await prepare(message("hello there"))
+		expect(res.status).toBe(204)
+		expect(messages).toEqual([
+			{ sender: expect.objectContaining({ alias: "Phone", ip: "10.0.0.5" }), text: "hello there" }
+		])
+		expect(consentAsked()).toBe(false)
+		expect(await readdir(dir)).toEqual([])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a text/plain file without a preview is still an upload", async () => {
+	const { dir, messages, prepare, consentAsked } = await makeServer()
+	try {
+		const res = await prepare(message(undefined))
+		expect(res.status).toBe(200)
+		expect(((await res.json()) as any).files.m).toBeString()
+		expect(messages).toEqual([])
+		expect(consentAsked()).toBe(true)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a preview alongside other files is not a message", async () => {
+	const { dir, messages, prepare } = await makeServer()
+	try {
+		const res = await prepare({
+			...message("note"),
+			b: { id: "b", fileName: "b.png", size: 3, fileType: "image/png" }
+		})
+		expect(res.status).toBe(200)
+		expect(messages).toEqual([])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("messages still need the PIN", async () => {
+	const { dir, messages, prepare } = await makeServer({ pin: "1234" })
+	try {
+		expect((await prepare(message("hi"))).status).toBe(401)
+		expect(messages).toEqual([])
+		expect((await prepare(message("hi"), "?pin=1234")).status).toBe(204)
+		expect(messages.map((m) => m.text)).toEqual(["hi"])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("without a message listener, a message is offered as a file and saved", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir
+	})
+	try {
+		const res = await server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({ info, files: message("hello there") })
+			})
+		)
+		expect(res.status).toBe(200)
+		const { sessionId, files } = (await res.json()) as any
+		const upload = await server.app.fetch(
+			new Request(`${base}/upload?sessionId=${sessionId}&fileId=m&token=${files.m}`, {
+				method: "POST",
+				body: "hello there"
+			})
+		)
+		expect(upload.status).toBe(200)
+		expect(await Bun.file(`${dir}/message.txt`).text()).toBe("hello there")
+	} finally {
+		await rmTemp(dir)
+	}
+})
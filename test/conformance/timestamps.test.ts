@@ -0,0 +1,76 @@
+import { test, expect } from "bun:test"
+import { stat } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const modified = "2020-01-02T03:04:05.000Z"
+const accessed = "2021-06-07T08:09:10.000Z"
+
+async function receive(preserveTimestamps?: boolean) {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		preserveTimestamps,
+		onTransferRequest: async () => true
+	})
+	const base = "http://localhost/api/localsend/v2"
+	const prep = await server.app.fetch(
+		new Request(`${base}/prepare-upload`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: {
+					f1: {
+						id: "f1",
+						fileName: "old.txt",
+						size: 3,
+						fileType: "text/plain",
+						metadata: { modified, accessed }
+					}
+				}
+			})
+		})
+	)
+	const { sessionId, files } = (await prep.json()) as any
+	const res = await server.app.fetch(
+		new Request(`${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}`, {
+			method: "POST",
+			body: "abc"
+		})
+	)
+	expect(res.status).toBe(200)
+	return { dir, stats: await stat(path.join(dir, "old.txt")) }
+}
+
+test("saved files keep the sender's modified and accessed timestamps", async () => {
+	const { dir, stats } = await receive()
+	try {
+		expect(stats.mtime.toISOString()).toBe(modified)
+		expect(stats.atime.toISOString()).toBe(accessed)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("preserveTimestamps: false leaves the receive time in place", async () => {
+	const { dir, stats } = await receive(false)
+	try {
+		expect(Date.now() - stats.mtime.getTime()).toBeLessThan(60_000)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,140 @@
+import { test, expect } from "bun:test"
+import { readdir } from "node:fs/promises"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+const info = {
+	alias: "x",
+	version: "2.1",
+	deviceModel: null,
+	deviceType: "headless",
+	fingerprint: "fp",
+	port: 53317,
+	protocol: "http",
+	download: false
+}
+const base = "http://localhost/api/localsend/v2"
+
+/** Prepare a single 8-byte file and return the server plus its upload URL. */
+async function prepared(dir: string) {
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+		saveDirectory: dir,
+		onTransferRequest: async () => true
+	})
+	const prep = await server.app.fetch(
+		new Request(`${base}/prepare-upload`, {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				info,
+				files: { f1: { id: "f1", fileName: "a.bin", size: 8, fileType: "text/plain" } }
+			})
+		})
+	)
+	const { sessionId, files } = (await prep.json()) as any
+	return { server, url: `${base}/upload?sessionId=${sessionId}&fileId=f1&token=${files.f1}` }
+}
+
+test("a Content-Length above the declared size is refused before reading the body", async () => {
+	const dir = await tempDir()
+	try {
+		const { server, url } = await prepared(dir)
+		let pulled = false
+		// highWaterMark 0: nothing is pulled until the handler actually reads.
+		const body = new ReadableStream<Uint8Array>(
+			{
+				pull() {
+					pulled = true
+				}
+			},
+			{ highWaterMark: 0 }
+		)
+		const res = await server.app.fetch(
+			new Request(url, {
+				method: "POST",
+				headers: { "content-length": "9" },
+				body,
+				// @ts-ignore - required by undici for streaming bodies
+				duplex: "half"
+			})
+		)
+		expect(res.status).toBe(413)
+		expect(pulled).toBe(false)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a Content-Length below the declared size is refused", async () => {
+	const dir = await tempDir()
+	try {
+		const { server, url } = await prepared(dir)
+		const res = await server.app.fetch(
+			new Request(url, { method: "POST", headers: { "content-length": "4" }, body: "abcd" })
+		)
+		expect(res.status).toBe(400)
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a body without Content-Length is aborted once it passes the declared size", async () => {
+	const dir = await tempDir()
+	try {
+		const { server, url } = await prepared(dir)
+		let chunksSent = 0
+		let canceled = false
+		// An endless body: only the size check can stop it.
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				chunksSent++
+				controller.enqueue(new Uint8Array(5).fill(65))
+			},
+			cancel() {
+				canceled = true
+			}
+		})
+		const res = await server.app.fetch(
+			new Request(url, {
+				method: "POST",
+				body,
+				// @ts-ignore - required by undici for streaming bodies
+				duplex: "half"
+			})
+		)
+		expect(res.status).toBe(413)
+		expect(canceled).toBe(true)
+		expect(chunksSent).toBeLessThan(10)
+		expect(await readdir(dir)).toEqual([])
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("a file far above the old 5 GB default is accepted at prepare-upload", async () => {
+	const dir = await tempDir()
+	try {
+		const port = await getFreePort()
+		const server = new LocalSendServer(getDeviceInfo({ alias: "probe", port }), {
+			saveDirectory: dir,
+			freeSpaceProvider: async () => Number.MAX_SAFE_INTEGER,
+			onTransferRequest: async () => true
+		})
+		const size = 20 * 1024 * 1024 * 1024
+		const prep = await server.app.fetch(
+			new Request(`${base}/prepare-upload`, {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({
+					info,
+					files: { f1: { id: "f1", fileName: "video.mp4", size, fileType: "video/mp4" } }
+				})
+			})
+		)
+		expect(prep.status).toBe(200)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -23,14 +23,13 @@ test("uploadFile sends the whole file in ONE request with no X-Content-Range (60
 	try {
 		const { path: filePath } = await makeRandomFile(dir, "big.bin", 60 * 1024 * 1024)
 		const client = new LocalSendClient(getDeviceInfo({ alias: "s" }))
-		const ok = await client.uploadFile(
+		await client.uploadFile(
 			{ ip: "127.0.0.1", port, protocol: "http" },
 			"sess",
 			"fid",
 			"tok",
 			filePath
 		)
-		expect(ok).toBe(true)
 		expect(requests).toHaveLength(1)
 		expect(requests[0].rangeHeader).toBeUndefined()
 		expect(requests[0].bytes).toBe(60 * 1024 * 1024)
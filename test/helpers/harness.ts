@@ -1,6 +1,7 @@
 import { getDeviceInfo } from "../../src/utils/device.ts"
 import { LocalSendServer } from "../../src/server/server.ts"
 import { LocalSendClient } from "../../src/api/client.ts"
+import { LocalSendError } from "../../src/core/errors.ts"
 import { getFreePort, tempDir, rmTemp } from "./util.ts"
 import path from "node:path"
 
@@ -44,9 +45,15 @@ export async function sendFile(
 	const target = { ip: "127.0.0.1", port: receiver.port, protocol: "http" as const }
 	const { buildFileMetadataFromPath } = await import("../../src/utils/file.ts")
 	const { fileId, fileMetadata } = await buildFileMetadataFromPath(filePath)
-	const prep = await client.prepareUpload(target, { [fileId]: fileMetadata }, opts.pin)
-	if (!prep || !prep.files[fileId]) return false
-	return client.uploadFile(target, prep.sessionId, fileId, prep.files[fileId], filePath)
+	try {
+		const prep = await client.prepareUpload(target, { [fileId]: fileMetadata }, opts.pin)
+		if (!prep.files[fileId]) return false
+		await client.uploadFile(target, prep.sessionId, fileId, prep.files[fileId], filePath)
+		return true
+	} catch (err) {
+		if (err instanceof LocalSendError) return false
+		throw err
+	}
 }
 
 export function savedPath(receiver: Receiver, name: string): string {
@@ -0,0 +1,101 @@
+import { test, expect } from "bun:test"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendClient } from "../../src/core/send.ts"
+import { buildFileMetadataFromPath } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp, makeRandomFile } from "../helpers/util.ts"
+
+/**
+ * A receiver that hands out tokens for every file, aborts `abort` as soon as an
+ * upload's first bytes arrive, and records the sessions it is asked to cancel.
+ */
+async function startStub(abort: AbortController) {
+	const port = await getFreePort()
+	const canceled: string[] = []
+	let uploads = 0
+	const stub = Bun.serve({
+		port,
+		async fetch(req) {
+			const url = new URL(req.url)
+			if (url.pathname.endsWith("/prepare-upload")) {
+				const body = (await req.json()) as any
+				const files = Object.fromEntries(Object.keys(body.files).map((id) => [id, `t-${id}`]))
+				return Response.json({ sessionId: "s1", files })
+			}
+			if (url.pathname.endsWith("/cancel")) {
+				canceled.push(url.searchParams.get("sessionId")!)
+				return Response.json({ message: "Session canceled" })
+			}
+			uploads++
+			const reader = req.body!.getReader()
+			await reader.read()
+			abort.abort()
+			try {
+				while (!(await reader.read()).done) {}
+			} catch {
+				// The sender hung up mid-body, as expected.
+			}
+			return Response.json({ message: "File received successfully" })
+		}
+	})
+	return { port, stub, canceled, uploads: () => uploads }
+}
+
+test("aborting uploadFile stops the body and cancels the session on the receiver", async () => {
+	const src = await tempDir()
+	const file = await makeRandomFile(src, "big.bin", 16 * 1024 * 1024)
+	const abort = new AbortController()
+	const { port, stub, canceled } = await startStub(abort)
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const { fileId } = await buildFileMetadataFromPath(file.path)
+		const target = { ip: "127.0.0.1", port, protocol: "http" as const }
+		await expect(
+			client.uploadFile(target, "s1", fileId, "t", file.path, abort.signal)
+		).rejects.toMatchObject({ kind: "aborted" })
+		expect(canceled).toEqual(["s1"])
+	} finally {
+		stub.stop(true)
+		await rmTemp(src)
+	}
+})
+
+test("aborting sendFiles marks unsent files canceled and cancels the session once", async () => {
+	const src = await tempDir()
+	await makeRandomFile(src, "a.bin", 16 * 1024 * 1024)
+	await makeRandomFile(src, "b.bin", 16 * 1024 * 1024)
+	const abort = new AbortController()
+	const { port, stub, canceled, uploads } = await startStub(abort)
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const results = await client.sendFiles({ ip: "127.0.0.1", port, protocol: "http" }, [src], {
+			concurrency: 1,
+			signal: abort.signal
+		})
+		expect(results.map((r) => r.status)).toEqual(["canceled", "canceled"])
+		expect(uploads()).toBe(1)
+		expect(canceled).toEqual(["s1"])
+	} finally {
+		stub.stop(true)
+		await rmTemp(src)
+	}
+})
+
+test("sendFiles aborted before it starts sends nothing", async () => {
+	const src = await tempDir()
+	await makeRandomFile(src, "a.bin", 1024)
+	const abort = new AbortController()
+	abort.abort()
+	const { port, stub, canceled, uploads } = await startStub(abort)
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const results = await client.sendFiles({ ip: "127.0.0.1", port, protocol: "http" }, [src], {
+			signal: abort.signal
+		})
+		expect(results.map((r) => r.status)).toEqual(["canceled"])
+		expect(uploads()).toBe(0)
+		expect(canceled).toEqual([])
+	} finally {
+		stub.stop(true)
+		await rmTemp(src)
+	}
+})
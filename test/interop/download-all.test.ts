@@ -0,0 +1,195 @@
+import { test, expect } from "bun:test"
+import { readdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { LocalSendClient, type DownloadFileProgress } from "../../src/core/send.ts"
+import { getFreePort, tempDir, rmTemp, makeRandomFile, sha256File } from "../helpers/util.ts"
+
+const client = () => new LocalSendClient(getDeviceInfo({ alias: "Downloader" }))
+const target = (port: number) => ({ ip: "127.0.0.1", port, protocol: "http" as const })
+
+/** Every file left in `dir`, recursively, partial files included. */
+const listAll = async (dir: string) =>
+	(await readdir(dir, { recursive: true, withFileTypes: true }))
+		.filter((entry) => entry.isFile())
+		.map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)))
+		.sort()
+
+/** A sharer that offers `files` and serves each fileId's `bodies` entry as-is. */
+async function startStub(files: Record<string, object>, bodies: Record<string, string>) {
+	const port = await getFreePort()
+	const stub = Bun.serve({
+		port,
+		fetch(req) {
+			const url = new URL(req.url)
+			if (url.pathname.endsWith("/prepare-download")) {
+				return Response.json({
+					info: getDeviceInfo({ alias: "Stub", port }),
+					sessionId: "s1",
+					files
+				})
+			}
+			return new Response(bodies[url.searchParams.get("fileId")!] ?? "")
+		}
+	})
+	return { port, stop: () => stub.stop(true) }
+}
+
+test("downloads every shared file, verified, with progress and without overwriting", async () => {
+	const dir = await tempDir()
+	const outDir = await tempDir()
+	const big = await makeRandomFile(dir, "big.bin", 3 * 1024 * 1024)
+	const small = await makeRandomFile(dir, "small.bin", 1024)
+	await writeFile(path.join(outDir, "small.bin"), "already here")
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Sharer", port }), {
+		sharedFiles: [big.path, small.path]
+	})
+	await server.start()
+	try {
+		const progress: DownloadFileProgress[] = []
+		const results = await client().downloadAll(target(port), outDir, {
+			concurrency: 2,
+			onProgress: (p) => progress.push(p)
+		})
+		expect(results.map((r) => [r.fileName, r.status, r.verified])).toEqual([
+			["big.bin", "downloaded", true],
+			["small.bin", "downloaded", true]
+		])
+		expect(results[1]!.path).toBe(path.join(outDir, "small (1).bin"))
+		expect(await sha256File(results[0]!.path!)).toBe(big.sha256)
+		expect(await sha256File(results[1]!.path!)).toBe(small.sha256)
+		expect(await Bun.file(path.join(outDir, "small.bin")).text()).toBe("already here")
+		const last = progress.filter((p) => p.fileName === "big.bin").at(-1)
+		expect(last).toMatchObject({ bytesReceived: 3 * 1024 * 1024, totalBytes: 3 * 1024 * 1024 })
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+		await rmTemp(outDir)
+	}
+})
+
+test("filter picks which files to fetch", async () => {
+	const dir = await tempDir()
+	const outDir = await tempDir()
+	const a = await makeRandomFile(dir, "a.jpg", 100)
+	const b = await makeRandomFile(dir, "b.txt", 100)
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Sharer", port }), {
+		sharedFiles: [a.path, b.path]
+	})
+	await server.start()
+	try {
+		const results = await client().downloadAll(target(port), outDir, {
+			filter: (file) => file.fileType.startsWith("image/")
+		})
+		expect(results.map((r) => r.fileName)).toEqual(["a.jpg"])
+		expect(await listAll(outDir)).toEqual(["a.jpg"])
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+		await rmTemp(outDir)
+	}
+})
+
+test("corrupt, truncated and unsafe files fail and leave nothing behind", async () => {
+	const outDir = await tempDir()
+	const file = (fileName: string, size: number, sha256?: string) => ({
+		id: fileName,
+		fileName,
+		size,
+		fileType: "text/plain",
+		sha256
+	})
+	const stub = await startStub(
+		{
+			bad: file("bad.txt", 5, "0".repeat(64)),
+			short: file("short.txt", 10),
+			long: file("long.txt", 2),
+			evil: file("../evil.txt", 5),
+			good: file("sub/good.txt", 5)
+		},
+		{ bad: "hello", short: "hello", long: "hello", evil: "hello", good: "hello" }
+	)
+	try {
+		const results = await client().downloadAll(target(stub.port), outDir)
+		const byId = Object.fromEntries(results.map((r) => [r.fileId, r]))
+		for (const id of ["bad", "short", "long"]) {
+			expect(byId[id]).toMatchObject({ status: "failed", error: { kind: "integrity" } })
+		}
+		expect(byId.evil!.status).toBe("failed")
+		expect(byId.good).toMatchObject({ status: "downloaded", verified: false })
+		expect(await listAll(outDir)).toEqual([path.join("sub", "good.txt")])
+		expect(await Bun.file(path.join(outDir, "..", "evil.txt")).exists()).toBe(false)
+	} finally {
+		stub.stop()
+		await rmTemp(outDir)
+	}
+})
+
+test("aborting cancels unfinished files and removes their partial files", async () => {
+	const outDir = await tempDir()
+	const abort = new AbortController()
+	const port = await getFreePort()
+	const stub = Bun.serve({
+		port,
+		fetch(req) {
+			if (new URL(req.url).pathname.endsWith("/prepare-download")) {
+				return Response.json({
+					info: getDeviceInfo({ alias: "Stub", port }),
+					sessionId: "s1",
+					files: { slow: { id: "slow", fileName: "slow.bin", size: 1000, fileType: "x/y" } }
+				})
+			}
+			// Send a first chunk, then stall until the client gives up.
+			return new Response(
+				new ReadableStream({
+					start(controller) {
+						controller.enqueue(new Uint8Array(100))
+						setTimeout(() => abort.abort(), 50)
+					}
+				})
+			)
+		}
+	})
+	try {
+		const results = await client().downloadAll(target(port), outDir, { signal: abort.signal })
+		expect(results.map((r) => r.status)).toEqual(["canceled"])
+		expect(await listAll(outDir)).toEqual([])
+	} finally {
+		stub.stop(true)
+		await rmTemp(outDir)
+	}
+})
+
+test("a failed prepare-download rejects", async () => {
+	const port = await getFreePort()
+	const stub = Bun.serve({ port, fetch: () => new Response("", { status: 401 }) })
+	try {
+		await expect(client().downloadAll(target(port), "/nonexistent")).rejects.toMatchObject({
+			kind: "pinRequired"
+		})
+	} finally {
+		stub.stop(true)
+	}
+})
+
+test("files offered under one name are all kept", async () => {
+	const outDir = await tempDir()
+	const file = (id: string) => ({ id, fileName: "same.txt", size: 2, fileType: "text/plain" })
+	const stub = await startStub(
+		{ a: file("a"), b: file("b"), c: file("c") },
+		{ a: "aa", b: "bb", c: "cc" }
+	)
+	try {
+		const results = await client().downloadAll(target(stub.port), outDir, { concurrency: 3 })
+		expect(results.every((r) => r.status === "downloaded")).toBe(true)
+		expect(await listAll(outDir)).toEqual(["same (1).txt", "same (2).txt", "same.txt"])
+		const contents = await Promise.all(results.map((r) => Bun.file(r.path!).text()))
+		expect(contents.sort()).toEqual(["aa", "bb", "cc"])
+	} finally {
+		stub.stop()
+		await rmTemp(outDir)
+	}
+})
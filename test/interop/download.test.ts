@@ -18,10 +18,9 @@ test("client downloads a shared file byte-for-byte (incl 60MB)", async () => {
 	const target = { ip: "127.0.0.1", port, protocol: "http" as const }
 	try {
 		const meta = await client.prepareDownload(target)
-		expect(meta).toBeTruthy()
-		const fileId = Object.keys(meta!.files)[0]
+		const fileId = Object.keys(meta.files)[0]
 		const out = path.join(outDir, "got.bin")
-		expect(await client.download(target, meta!.sessionId, fileId, out)).toBe(true)
+		await client.download(target, meta.sessionId, fileId, out)
 		expect(await sha256File(out)).toBe(big.sha256)
 	} finally {
 		await server.stop()
@@ -22,9 +22,8 @@ test("upload over HTTPS (self-signed) is byte-for-byte", async () => {
 		const f = await makeRandomFile(src, "tls.bin", 1024 * 1024)
 		const { fileId, fileMetadata } = await buildFileMetadataFromPath(f.path)
 		const prep = await client.prepareUpload(target, { [fileId]: fileMetadata })
-		expect(prep && prep.files[fileId]).toBeTruthy()
-		const ok = await client.uploadFile(target, prep!.sessionId, fileId, prep!.files[fileId], f.path)
-		expect(ok).toBe(true)
+		expect(prep.files[fileId]).toBeTruthy()
+		await client.uploadFile(target, prep.sessionId, fileId, prep.files[fileId], f.path)
 		expect(await sha256File(path.join(saveDir, "tls.bin"))).toBe(f.sha256)
 	} finally {
 		await server.stop()
@@ -47,10 +46,9 @@ test("download over HTTPS (self-signed) is byte-for-byte", async () => {
 	const target = { ip: "127.0.0.1", port, protocol: "https" as const }
 	try {
 		const meta = await client.prepareDownload(target)
-		expect(meta).toBeTruthy()
-		const fileId = Object.keys(meta!.files)[0]
+		const fileId = Object.keys(meta.files)[0]
 		const out = path.join(outDir, "got.bin")
-		expect(await client.download(target, meta!.sessionId, fileId, out)).toBe(true)
+		await client.download(target, meta.sessionId, fileId, out)
 		expect(await sha256File(out)).toBe(shared.sha256)
 	} finally {
 		await server.stop()
@@ -0,0 +1,135 @@
+import { test, expect } from "bun:test"
+import { createServer } from "node:http"
+import { readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { LocalSendClient } from "../../src/core/send.ts"
+import { buildFileMetadataFromPath } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+test("sendFiles prepares again for files whose session is gone, skipping confirmed ones", async () => {
+	const src = await tempDir()
+	await writeFile(path.join(src, "a.txt"), "aaa")
+	await writeFile(path.join(src, "b.txt"), "bbbb")
+	const saveDir = await tempDir()
+	const port = await getFreePort()
+	const offers: string[][] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Receiver", port }), {
+		saveDirectory: saveDir,
+		onTransferRequest: async (_sender, files) => {
+			offers.push(Object.values(files).map((f) => f.fileName))
+			return true
+		}
+	})
+	// The receiver forgets the first session as soon as one file lands.
+	const unsubscribe = server.on("fileCompleted", ({ sessionId }) => {
+		unsubscribe()
+		server.cancelSession(sessionId)
+	})
+	await server.start()
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }), {
+		retry: { baseDelayMs: 1 }
+	})
+	try {
+		const results = await client.sendFiles(
+			{ ip: "127.0.0.1", port, protocol: "http" },
+			[path.join(src, "a.txt"), path.join(src, "b.txt")],
+			{ concurrency: 1 }
+		)
+		expect(results.map((r) => r.status)).toEqual(["sent", "sent"])
+		expect(offers).toEqual([["a.txt", "b.txt"], ["b.txt"]])
+		expect(await readFile(path.join(saveDir, "a.txt"), "utf8")).toBe("aaa")
+		expect(await readFile(path.join(saveDir, "b.txt"), "utf8")).toBe("bbbb")
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
+
+test("a dropped connection during prepareUpload is retried", async () => {
+	const dir = await tempDir()
+	await writeFile(path.join(dir, "x.txt"), "x")
+	const port = await getFreePort()
+	let requests = 0
+	const stub = createServer((req, res) => {
+		if (++requests === 1) {
+			req.socket.destroy()
+			return
+		}
+		res.setHeader("content-type", "application/json")
+		res.end(JSON.stringify({ sessionId: "s1", files: {} }))
+	})
+	await new Promise<void>((r) => stub.listen(port, r))
+	const target = { ip: "127.0.0.1", port, protocol: "http" as const }
+	try {
+		const { fileId, fileMetadata } = await buildFileMetadataFromPath(path.join(dir, "x.txt"))
+		const files = { [fileId]: fileMetadata }
+
+		const once = new LocalSendClient(getDeviceInfo({ alias: "Sender" }), { retry: { attempts: 1 } })
+		await expect(once.prepareUpload(target, files)).rejects.toMatchObject({ kind: "network" })
+
+		requests = 0
+		const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }), {
+			retry: { baseDelayMs: 1 }
+		})
+		expect(await client.prepareUpload(target, files)).toEqual({ sessionId: "s1", files: {} })
+		expect(requests).toBe(2)
+	} finally {
+		await new Promise<void>((r) => stub.close(() => r()))
+		await rmTemp(dir)
+	}
+})
+
+test("sendFiles cancels the old session before a retry round prepares a new one", async () => {
+	const dir = await tempDir()
+	await writeFile(path.join(dir, "x.txt"), "x")
+	const port = await getFreePort()
+	// Like the official app: one session at a time, 409 for any other.
+	let open: string | null = null
+	let sessions = 0
+	let uploads = 0
+	const canceled: string[] = []
+	const stub = createServer((req, res) => {
+		const url = new URL(req.url!, "http://stub")
+		const reply = (status: number, body?: unknown) => {
+			res.writeHead(status, { "content-type": "application/json" })
+			res.end(body === undefined ? undefined : JSON.stringify(body))
+		}
+		if (url.pathname.endsWith("/prepare-upload")) {
+			let raw = ""
+			req.on("data", (chunk) => (raw += chunk))
+			req.on("end", () => {
+				if (open) return reply(409, { message: "Blocked by another session" })
+				open = `s${++sessions}`
+				const [fileId] = Object.keys(JSON.parse(raw).files)
+				reply(200, { sessionId: open, files: { [fileId!]: "token" } })
+			})
+		} else if (url.pathname.endsWith("/upload")) {
+			// The first upload's connection drops; the session stays open.
+			if (++uploads === 1) return req.socket.destroy()
+			req.resume()
+			req.on("end", () => reply(200))
+		} else if (url.pathname.endsWith("/cancel")) {
+			canceled.push(url.searchParams.get("sessionId")!)
+			if (open === url.searchParams.get("sessionId")) open = null
+			reply(200)
+		}
+	})
+	await new Promise<void>((r) => stub.listen(port, r))
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }), {
+		retry: { baseDelayMs: 1 }
+	})
+	try {
+		const results = await client.sendFiles({ ip: "127.0.0.1", port, protocol: "http" }, [
+			path.join(dir, "x.txt")
+		])
+		expect(results.map((r) => r.status)).toEqual(["sent"])
+		expect(canceled).toEqual(["s1"])
+		expect(sessions).toBe(2)
+	} finally {
+		await new Promise<void>((r) => stub.close(() => r()))
+		await rmTemp(dir)
+	}
+})
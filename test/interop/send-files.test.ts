@@ -0,0 +1,125 @@
+import { test, expect } from "bun:test"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { LocalSendClient } from "../../src/core/send.ts"
+import type { FileMetadata } from "../../src/protocol/types.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+async function fixture() {
+	const src = await tempDir()
+	await mkdir(path.join(src, "album/2026"), { recursive: true })
+	await writeFile(path.join(src, "album/2026/a.txt"), "aaa")
+	await writeFile(path.join(src, "album/b.txt"), "bbbb")
+	await writeFile(path.join(src, "c.txt"), "c")
+	return src
+}
+
+async function startReceiver(decide: (files: Record<string, FileMetadata>) => boolean | string[]) {
+	const saveDir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Receiver", port }), {
+		saveDirectory: saveDir,
+		onTransferRequest: async (_sender, files) => decide(files)
+	})
+	await server.start()
+	return { saveDir, port, server }
+}
+
+test("sendFiles sends files and folders in one session, keeping relative paths", async () => {
+	const src = await fixture()
+	let offered: string[] = []
+	const { saveDir, port, server } = await startReceiver((files) => {
+		offered = Object.values(files).map((f) => f.fileName)
+		return true
+	})
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const settled: string[] = []
+		const results = await client.sendFiles(
+			{ ip: "127.0.0.1", port, protocol: "http" },
+			[path.join(src, "album"), path.join(src, "c.txt")],
+			{ concurrency: 2, onFileResult: (r) => settled.push(r.fileName) }
+		)
+		expect(offered.sort()).toEqual(["album/2026/a.txt", "album/b.txt", "c.txt"])
+		expect(results.map((r) => [r.fileName, r.status])).toEqual([
+			["album/2026/a.txt", "sent"],
+			["album/b.txt", "sent"],
+			["c.txt", "sent"]
+		])
+		expect(settled.sort()).toEqual(["album/2026/a.txt", "album/b.txt", "c.txt"])
+		expect(await readFile(path.join(saveDir, "album/2026/a.txt"), "utf8")).toBe("aaa")
+		expect(await readFile(path.join(saveDir, "album/b.txt"), "utf8")).toBe("bbbb")
+		expect(await readFile(path.join(saveDir, "c.txt"), "utf8")).toBe("c")
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
+
+test("sendFiles reports files the receiver left out as declined", async () => {
+	const src = await fixture()
+	const { saveDir, port, server } = await startReceiver((files) =>
+		Object.keys(files).filter((id) => files[id]!.fileName === "c.txt")
+	)
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const results = await client.sendFiles({ ip: "127.0.0.1", port, protocol: "http" }, [
+			path.join(src, "album"),
+			path.join(src, "c.txt")
+		])
+		expect(results.map((r) => r.status)).toEqual(["declined", "declined", "sent"])
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
+
+test("sendFiles marks every file failed when the transfer is refused", async () => {
+	const src = await fixture()
+	const { saveDir, port, server } = await startReceiver(() => false)
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const results = await client.sendFiles({ ip: "127.0.0.1", port, protocol: "http" }, [
+			path.join(src, "c.txt")
+		])
+		expect(results).toEqual([expect.objectContaining({ fileName: "c.txt", status: "failed" })])
+		expect(results[0]!.error).toMatchObject({ kind: "rejected", status: 403 })
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
+
+test("sendFiles hashes in parallel, keeps the order and skips hashing above hashLimit", async () => {
+	const src = await fixture()
+	let offered: FileMetadata[] = []
+	const { saveDir, port, server } = await startReceiver((files) => {
+		offered = Object.values(files)
+		return true
+	})
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		const results = await client.sendFiles(
+			{ ip: "127.0.0.1", port, protocol: "http" },
+			[path.join(src, "album"), path.join(src, "c.txt")],
+			{ hashConcurrency: 3, hashLimit: 3 }
+		)
+		expect(results.map((r) => [r.fileName, r.status])).toEqual([
+			["album/2026/a.txt", "sent"],
+			["album/b.txt", "sent"],
+			["c.txt", "sent"]
+		])
+		const hashedNames = offered.filter((f) => f.sha256).map((f) => f.fileName)
+		expect(hashedNames.sort()).toEqual(["album/2026/a.txt", "c.txt"])
+		expect(await readFile(path.join(saveDir, "album/b.txt"), "utf8")).toBe("bbbb")
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
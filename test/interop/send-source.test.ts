@@ -0,0 +1,63 @@
+import { test, expect } from "bun:test"
+import { createHash, randomBytes } from "node:crypto"
+import { readFile } from "node:fs/promises"
+import { startReceiver, savedPath } from "../helpers/harness.ts"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendClient } from "../../src/api/client.ts"
+import {
+	buildFileMetadataFromSource,
+	createSendSource,
+	SourceSizeError,
+	type SendSource
+} from "../../src/core/source.ts"
+
+const sha256 = (bytes: Uint8Array) => createHash("sha256").update(bytes).digest("hex")
+
+async function send(port: number, source: SendSource) {
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Test Sender" }))
+	const target = { ip: "127.0.0.1", port, protocol: "http" as const }
+	const { fileId, fileMetadata } = await buildFileMetadataFromSource(source)
+	const prep = await client.prepareUpload(target, { [fileId]: fileMetadata })
+	await client.uploadFile(target, prep.sessionId, fileId, prep.files[fileId]!, source)
+}
+
+test("bytes, Blobs, web streams and async iterables upload byte-for-byte", async () => {
+	const receiver = await startReceiver({ autoAccept: true })
+	try {
+		const payload = new Uint8Array(randomBytes(300_000))
+		async function* iterate() {
+			for (let i = 0; i < payload.length; i += 70_000) yield payload.subarray(i, i + 70_000)
+		}
+		const sources = [
+			await createSendSource(payload, { fileName: "bytes.bin" }),
+			await createSendSource(new File([payload], "blob.bin")),
+			await createSendSource(new Blob([payload]).stream(), {
+				fileName: "stream.bin",
+				size: payload.length,
+				sha256: sha256(payload)
+			}),
+			await createSendSource(iterate(), { fileName: "iterable.bin", size: payload.length })
+		]
+		for (const source of sources) {
+			await send(receiver.port, source)
+			const saved = await readFile(savedPath(receiver, source.fileName))
+			expect(sha256(saved)).toBe(sha256(payload))
+		}
+	} finally {
+		await receiver.stop()
+	}
+})
+
+test("a stream shorter than its declared size fails and saves nothing", async () => {
+	const receiver = await startReceiver({ autoAccept: true })
+	try {
+		const source = await createSendSource(new Blob(["only this"]).stream(), {
+			fileName: "short.txt",
+			size: 100
+		})
+		await expect(send(receiver.port, source)).rejects.toBeInstanceOf(SourceSizeError)
+		expect(await Bun.file(savedPath(receiver, "short.txt")).exists()).toBe(false)
+	} finally {
+		await receiver.stop()
+	}
+})
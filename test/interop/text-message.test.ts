@@ -0,0 +1,60 @@
+import { test, expect } from "bun:test"
+import { readdir } from "node:fs/promises"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { LocalSendClient } from "../../src/core/send.ts"
+import { getFreePort, tempDir, rmTemp } from "../helpers/util.ts"
+
+test("sendMessage delivers text to onMessage without any file", async () => {
+	const dir = await tempDir()
+	const port = await getFreePort()
+	const received: string[] = []
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Receiver", port }), {
+		saveDirectory: dir,
+		pin: "4321",
+		onMessage: (_sender, text) => received.push(text)
+	})
+	await server.start()
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	const target = { ip: "127.0.0.1", port, protocol: "http" as const }
+	try {
+		await client.sendMessage(target, "héllo 👋", "4321")
+		expect(received).toEqual(["héllo 👋"])
+		expect(await readdir(dir)).toEqual([])
+
+		await expect(client.sendMessage(target, "wrong pin", "0000")).rejects.toMatchObject({
+			kind: "pinRequired",
+			status: 401,
+			message: "Wrong PIN — try again"
+		})
+	} finally {
+		await server.stop()
+		await rmTemp(dir)
+	}
+})
+
+test("sendMessage uploads from memory when the receiver issues a token", async () => {
+	const port = await getFreePort()
+	let uploaded = ""
+	// A receiver that treats the message as an ordinary file.
+	const stub = Bun.serve({
+		port,
+		async fetch(req) {
+			const url = new URL(req.url)
+			if (url.pathname.endsWith("/prepare-upload")) {
+				const body = (await req.json()) as any
+				const fileId = Object.keys(body.files)[0]!
+				return Response.json({ sessionId: "s1", files: { [fileId]: "t1" } })
+			}
+			uploaded = await req.text()
+			return Response.json({ message: "ok" })
+		}
+	})
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	try {
+		await client.sendMessage({ ip: "127.0.0.1", port, protocol: "http" }, "over the wire")
+		expect(uploaded).toBe("over the wire")
+	} finally {
+		stub.stop(true)
+	}
+})
@@ -0,0 +1,77 @@
+import { test, expect } from "bun:test"
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { getDeviceInfo } from "../../src/utils/device.ts"
+import { LocalSendServer } from "../../src/server/server.ts"
+import { LocalSendClient } from "../../src/core/send.ts"
+import { LocalSendRpcClient } from "../../src/hono-rpc.ts"
+import { buildFileMetadataFromPath } from "../../src/core/files.ts"
+import { getFreePort, tempDir, rmTemp, makeRandomFile, sha256File } from "../helpers/util.ts"
+
+async function startReceiver() {
+	const saveDir = await tempDir()
+	const port = await getFreePort()
+	const server = new LocalSendServer(getDeviceInfo({ alias: "Receiver", port }), {
+		saveDirectory: saveDir
+	})
+	await server.start()
+	return { saveDir, port, server }
+}
+
+test("uploadFile reports bytes as they are sent, then the finished total", async () => {
+	const src = await tempDir()
+	const size = 8 * 1024 * 1024
+	const file = await makeRandomFile(src, "data.bin", size)
+	const { saveDir, port, server } = await startReceiver()
+	const client = new LocalSendClient(getDeviceInfo({ alias: "Sender" }))
+	const target = { ip: "127.0.0.1", port, protocol: "http" as const }
+	try {
+		const reports: { bytes: number; finished: boolean; speed: number }[] = []
+		client.setProgressCallback((bytes, total, finished, speed) => {
+			expect(total).toBe(size)
+			reports.push({ bytes, finished, speed })
+		})
+		const { fileId, fileMetadata } = await buildFileMetadataFromPath(file.path)
+		const prep = await client.prepareUpload(target, { [fileId]: fileMetadata })
+		await client.uploadFile(target, prep.sessionId, fileId, prep.files[fileId]!, file.path)
+
+		const bytes = reports.map((r) => r.bytes)
+		expect(bytes).toEqual([...bytes].sort((a, b) => a - b))
+		expect(reports[0]).toEqual({ bytes: 0, finished: false, speed: 0 })
+		// The stream itself reports the full size before the response arrives.
+		expect(reports.at(-2)).toMatchObject({ bytes: size, finished: false })
+		expect(reports.at(-1)).toMatchObject({ bytes: size, finished: true })
+		expect(reports.at(-1)!.speed).toBeGreaterThan(0)
+		expect(await sha256File(path.join(saveDir, "data.bin"))).toBe(file.sha256)
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
+
+test("the RPC client streams the file body with progress", async () => {
+	const src = await tempDir()
+	const size = 256 * 1024
+	const file = await makeRandomFile(src, "rpc.bin", size)
+	const { saveDir, port, server } = await startReceiver()
+	const rpc = new LocalSendRpcClient({ baseUrl: `http://127.0.0.1:${port}` })
+	try {
+		const { fileId, fileMetadata } = await buildFileMetadataFromPath(file.path)
+		const prep = await rpc.prepareUpload(getDeviceInfo({ alias: "Rpc" }), {
+			[fileId]: fileMetadata
+		})
+		const progress: number[] = []
+		const bytes = await readFile(file.path)
+		await rpc.uploadFile(prep.sessionId, fileId, prep.files[fileId]!, new Blob([bytes]), (n) =>
+			progress.push(n)
+		)
+		expect(progress[0]).toBe(0)
+		expect(progress.at(-1)).toBe(size)
+		expect(await sha256File(path.join(saveDir, "rpc.bin"))).toBe(file.sha256)
+	} finally {
+		await server.stop()
+		await rmTemp(saveDir)
+		await rmTemp(src)
+	}
+})
@@ -1,8 +1,8 @@
 import { test, expect } from "bun:test"
-import { writeFile, mkdir } from "node:fs/promises"
+import { writeFile, mkdir, readdir, readFile } from "node:fs/promises"
 import path from "node:path"
 import { tempDir, rmTemp } from "../helpers/util.ts"
-import { uniqueSavePath } from "../../src/core/files.ts"
+import { isIdenticalFile, moveToUniquePath, uniqueSavePath } from "../../src/core/files.ts"
 
 test("uniqueSavePath appends counter on collision", async () => {
 	const dir = await tempDir()
@@ -14,3 +14,46 @@ test("uniqueSavePath appends counter on collision", async () => {
 		await rmTemp(dir)
 	}
 })
+
+test("moveToUniquePath gives files finishing together distinct names", async () => {
+	const dir = await tempDir()
+	try {
+		await writeFile(path.join(dir, "a.txt"), "existing")
+		const temps = await Promise.all(
+			Array.from({ length: 5 }, async (_, i) => {
+				const temp = path.join(dir, `.tmp-${i}`)
+				await writeFile(temp, `upload ${i}`)
+				return temp
+			})
+		)
+		const saved = await Promise.all(temps.map((temp) => moveToUniquePath(temp, dir, "a.txt")))
+		expect(new Set(saved).size).toBe(5)
+		expect(saved).not.toContain(path.join(dir, "a.txt"))
+		const contents = await Promise.all(saved.map((file) => readFile(file, "utf8")))
+		expect(contents.sort()).toEqual([0, 1, 2, 3, 4].map((i) => `upload ${i}`))
+		expect((await readdir(dir)).sort()).toEqual(
+			["a.txt", "a (1).txt", "a (2).txt", "a (3).txt", "a (4).txt", "a (5).txt"].sort()
+		)
+		expect(await readFile(path.join(dir, "a.txt"), "utf8")).toBe("existing")
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("isIdenticalFile needs matching size and sha256", async () => {
+	const dir = await tempDir()
+	try {
+		const file = path.join(dir, "a.txt")
+		await writeFile(file, "abc")
+		const sha256 = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+		const meta = { id: "f", fileName: "a.txt", size: 3, fileType: "text/plain" }
+		expect(await isIdenticalFile(file, { ...meta, sha256 })).toBe(true)
+		expect(await isIdenticalFile(file, { ...meta, sha256: sha256.toUpperCase() })).toBe(true)
+		expect(await isIdenticalFile(file, meta)).toBe(false)
+		expect(await isIdenticalFile(file, { ...meta, size: 4, sha256 })).toBe(false)
+		expect(await isIdenticalFile(file, { ...meta, sha256: "0".repeat(64) })).toBe(false)
+		expect(await isIdenticalFile(path.join(dir, "missing"), { ...meta, sha256 })).toBe(false)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,40 @@
+import { test, expect } from "bun:test"
+import { LocalSendError } from "../../src/core/errors.ts"
+
+test("error statuses map to their kinds", () => {
+	const kinds = [401, 403, 409, 413, 429, 507, 500].map((s) => LocalSendError.fromStatus(s).kind)
+	expect(kinds).toEqual([
+		"pinRequired",
+		"rejected",
+		"busy",
+		"tooLarge",
+		"pinLockout",
+		"tooLarge",
+		"http"
+	])
+	expect(LocalSendError.fromStatus(500).message).toBe("HTTP 500")
+	expect(LocalSendError.fromStatus(500).status).toBe(500)
+})
+
+test("a 401 reads differently with and without a PIN sent", () => {
+	expect(LocalSendError.fromStatus(401, true).message).toBe("Wrong PIN — try again")
+	expect(LocalSendError.fromStatus(401, false).message).toBe("The receiver requires a PIN")
+})
+
+test("thrown errors map to aborted, timeout, tls or network", () => {
+	const abort = new AbortController()
+	abort.abort()
+	expect(LocalSendError.from(new Error("gone"), abort.signal).kind).toBe("aborted")
+	const timedOut = AbortSignal.abort(new DOMException("late", "TimeoutError"))
+	expect(LocalSendError.from(timedOut.reason, timedOut).kind).toBe("timeout")
+
+	const tls = Object.assign(new Error("self signed"), { code: "DEPTH_ZERO_SELF_SIGNED_CERT" })
+	expect(LocalSendError.from(tls).kind).toBe("tls")
+	const refused = Object.assign(new Error("refused"), { code: "ECONNREFUSED" })
+	const network = LocalSendError.from(refused)
+	expect(network.kind).toBe("network")
+	expect(network.cause).toBe(refused)
+
+	const original = LocalSendError.fromStatus(403)
+	expect(LocalSendError.from(original)).toBe(original)
+})
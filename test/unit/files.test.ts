@@ -1,6 +1,17 @@
 import { test, expect } from "bun:test"
+import os from "node:os"
 import path from "node:path"
-import { resolveSavePath, sanitizeFilename } from "../../src/core/files.ts"
+import { mkdir, symlink, writeFile } from "node:fs/promises"
+import {
+	buildFileMetadataFromPath,
+	collectSendFiles,
+	getFreeSpace,
+	PARTIAL_FILE_SUFFIX,
+	partialSavePath,
+	resolveSavePath,
+	sanitizeFilename
+} from "../../src/core/files.ts"
+import { rmTemp, tempDir } from "../helpers/util.ts"
 
 const SAVE = "/tmp/ls-save"
 
@@ -29,3 +40,65 @@ test("sanitizeFilename neutralizes .., ., and empty", () => {
 	expect(sanitizeFilename(".")).toBe("unnamed_file")
 	expect(sanitizeFilename("")).toBe("unnamed_file")
 })
+
+test("partialSavePath stays within the name limit for names near 255 bytes", () => {
+	const name = "照片".repeat(38) + ".jpg"
+	const temp = path.basename(partialSavePath(path.join(SAVE, name)))
+	expect(Buffer.byteLength(temp)).toBeLessThanOrEqual(255)
+	expect(temp.startsWith(".照片")).toBe(true)
+	expect(temp.endsWith(PARTIAL_FILE_SUFFIX)).toBe(true)
+	// Short names are kept whole.
+	expect(path.basename(partialSavePath(path.join(SAVE, "a.txt")))).toMatch(
+		/^\.a\.txt\.[0-9a-f]{8}\.localsend-part$/
+	)
+})
+
+test("getFreeSpace reports the bytes available on a real filesystem", async () => {
+	const free = await getFreeSpace(os.tmpdir())
+	expect(Number.isFinite(free)).toBe(true)
+	expect(free).toBeGreaterThan(0)
+})
+
+test("collectSendFiles names folder contents relative to the folder's parent", async () => {
+	const dir = await tempDir()
+	try {
+		await mkdir(path.join(dir, "album/2026"), { recursive: true })
+		await writeFile(path.join(dir, "album/b.jpg"), "b")
+		await writeFile(path.join(dir, "album/2026/a.jpg"), "a")
+		await writeFile(path.join(dir, "notes.txt"), "n")
+		await symlink(path.join(dir, "notes.txt"), path.join(dir, "album/link.txt"))
+
+		const entries = await collectSendFiles([
+			path.join(dir, "notes.txt"),
+			path.join(dir, "album"),
+			path.join(dir, "album/b.jpg")
+		])
+		expect(entries.map((e) => e.fileName)).toEqual(["notes.txt", "album/2026/a.jpg", "album/b.jpg"])
+		expect(entries[1]!.absolutePath).toBe(path.join(dir, "album/2026/a.jpg"))
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("collectSendFiles rejects a missing path", async () => {
+	await expect(collectSendFiles(["/definitely/not/here"])).rejects.toThrow()
+})
+
+test("buildFileMetadataFromPath skips the hash above hashLimit", async () => {
+	const dir = await tempDir()
+	try {
+		const small = path.join(dir, "small.txt")
+		const large = path.join(dir, "large.txt")
+		await writeFile(small, "abc")
+		await writeFile(large, "abcdef")
+		const a = await buildFileMetadataFromPath(small, { hashLimit: 3 })
+		const b = await buildFileMetadataFromPath(large, { hashLimit: 3 })
+		expect(a.fileMetadata.sha256).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+		)
+		expect(b.fileMetadata.sha256).toBeUndefined()
+		expect(b.fileMetadata.size).toBe(6)
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,68 @@
+import { test, expect } from "bun:test"
+import { writeFile } from "node:fs/promises"
+import path from "node:path"
+import {
+	detectMimeType,
+	detectMimeTypeFromBytes,
+	mimeFromExtension,
+	sniffMimeType
+} from "../../src/core/mime.ts"
+import { buildFileMetadataFromPath } from "../../src/core/files.ts"
+import { rmTemp, tempDir } from "../helpers/util.ts"
+
+const bytes = (...values: (number | string)[]) =>
+	new Uint8Array(
+		values.flatMap((v) => (typeof v === "string" ? [...v].map((c) => c.charCodeAt(0)) : [v]))
+	)
+
+test("extensions map case-insensitively; unknown ones give null", () => {
+	expect(mimeFromExtension("IMG_0001.JPG")).toBe("image/jpeg")
+	expect(mimeFromExtension("album/clip.mov")).toBe("video/quicktime")
+	expect(mimeFromExtension("archive.tar.gz")).toBe("application/gzip")
+	expect(mimeFromExtension("README")).toBeNull()
+	expect(mimeFromExtension("data.xyz")).toBeNull()
+})
+
+test("magic bytes identify common formats", () => {
+	expect(sniffMimeType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg")
+	expect(sniffMimeType(bytes("GIF89a", 1, 0))).toBe("image/gif")
+	expect(sniffMimeType(bytes("RIFF", 0, 0, 0, 0, "WEBPVP8 "))).toBe("image/webp")
+	expect(sniffMimeType(bytes(0, 0, 0, 0x18, "ftypheic"))).toBe("image/heic")
+	expect(sniffMimeType(bytes(0, 0, 0, 0x18, "ftypisom"))).toBe("video/mp4")
+	expect(sniffMimeType(bytes("%PDF-1.7\n"))).toBe("application/pdf")
+	expect(sniffMimeType(bytes("PK", 3, 4, 20, 0))).toBe("application/zip")
+	expect(sniffMimeType(bytes("ID3", 4, 0))).toBe("audio/mpeg")
+})
+
+test("UTF-8 text sniffs as text/plain; binary noise and empty input do not", () => {
+	expect(sniffMimeType(new TextEncoder().encode("héllo\r\n\tworld 👋"))).toBe("text/plain")
+	// A sample that ends inside a multi-byte character is still text.
+	expect(sniffMimeType(new TextEncoder().encode("ab👋").subarray(0, 4))).toBe("text/plain")
+	expect(sniffMimeType(bytes(0x00, 0x01, 0x02, 0xfe))).toBeNull()
+	expect(sniffMimeType(bytes("BM with text"))).toBe("text/plain")
+	expect(sniffMimeType(new Uint8Array())).toBeNull()
+})
+
+test("the extension wins over the content, which beats octet-stream", () => {
+	expect(detectMimeTypeFromBytes("note.json", new TextEncoder().encode("hi"))).toBe(
+		"application/json"
+	)
+	expect(detectMimeTypeFromBytes("note", new TextEncoder().encode("hi"))).toBe("text/plain")
+	expect(detectMimeTypeFromBytes("blob", bytes(0x00, 0xff))).toBe("application/octet-stream")
+})
+
+test("files are sniffed only when the extension is unknown", async () => {
+	const dir = await tempDir()
+	try {
+		const noExt = path.join(dir, "scan")
+		await writeFile(noExt, bytes("%PDF-1.4\n"))
+		const misnamed = path.join(dir, "photo.png")
+		await writeFile(misnamed, "not a png")
+		expect(await detectMimeType(noExt)).toBe("application/pdf")
+		expect(await detectMimeType(misnamed)).toBe("image/png")
+		const { fileMetadata } = await buildFileMetadataFromPath(noExt)
+		expect(fileMetadata.fileType).toBe("application/pdf")
+	} finally {
+		await rmTemp(dir)
+	}
+})
@@ -0,0 +1,68 @@
+import { test, expect } from "bun:test"
+import { PinGuard, pinsMatch } from "../../src/core/pin-guard.ts"
+
+const clock = () => {
+	const c = { t: 0, now: () => c.t }
+	return c
+}
+
+test("pinsMatch compares exactly", () => {
+	expect(pinsMatch("123456", "123456")).toBe(true)
+	expect(pinsMatch("123457", "123456")).toBe(false)
+	expect(pinsMatch("12345", "123456")).toBe(false)
+	expect(pinsMatch("", "123456")).toBe(false)
+})
+
+test("locks an address out after maxAttempts wrong PINs", () => {
+	const c = clock()
+	const guard = new PinGuard({ maxAttempts: 3, windowMs: 1000, lockoutMs: 5000 }, c.now)
+	expect(guard.check("1.1.1.1", "0", "42")).toMatchObject({
+		reason: "invalid",
+		failure: { ip: "1.1.1.1", attempts: 1, lockedUntil: null }
+	})
+	guard.check("1.1.1.1", "1", "42")
+	expect(guard.check("1.1.1.1", "2", "42")).toMatchObject({
+		reason: "invalid",
+		failure: { attempts: 3, lockedUntil: 5000 }
+	})
+	// Even the right PIN is refused while locked.
+	c.t = 1000
+	expect(guard.check("1.1.1.1", "42", "42")).toEqual({
+		ok: false,
+		reason: "locked",
+		retryAfterMs: 4000
+	})
+	// Other addresses are unaffected.
+	expect(guard.check("2.2.2.2", "42", "42")).toEqual({ ok: true })
+	c.t = 5000
+	expect(guard.check("1.1.1.1", "42", "42")).toEqual({ ok: true })
+})
+
+test("failures outside the window start a fresh count", () => {
+	const c = clock()
+	const guard = new PinGuard({ maxAttempts: 2, windowMs: 1000 }, c.now)
+	guard.check("1.1.1.1", "0", "42")
+	c.t = 1001
+	expect(guard.check("1.1.1.1", "0", "42")).toMatchObject({ failure: { attempts: 1 } })
+})
+
+test("a missing PIN is not counted and a correct PIN resets the count", () => {
+	const c = clock()
+	const guard = new PinGuard({ maxAttempts: 2 }, c.now)
+	for (let i = 0; i < 5; i++) expect(guard.check("1.1.1.1", undefined, "42").ok).toBe(false)
+	guard.check("1.1.1.1", "0", "42")
+	expect(guard.check("1.1.1.1", "42", "42").ok).toBe(true)
+	expect(guard.check("1.1.1.1", "0", "42")).toMatchObject({ failure: { attempts: 1 } })
+})
+
+test("wrong PINs from an unknown address are reported but never lock anyone out", () => {
+	const guard = new PinGuard({ maxAttempts: 2 })
+	for (let i = 0; i < 5; i++) {
+		expect(guard.check(null, "0", "42")).toMatchObject({
+			reason: "invalid",
+			failure: { ip: null, attempts: 1, lockedUntil: null }
+		})
+	}
+	expect(guard.check(null, "42", "42")).toEqual({ ok: true })
+	expect(guard.check("1.1.1.1", "42", "42")).toEqual({ ok: true })
+})
@@ -0,0 +1,109 @@
+import { test, expect } from "bun:test"
+import { meterStream, ProgressAggregator } from "../../src/core/progress.ts"
+
+function clock() {
+	const c = { t: 1_000, now: () => c.t }
+	return c
+}
+
+test("reports at most once per interval, and always on the last chunk", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 1000 }, { intervalMs: 250 }, c.now)
+	progress.start("a")
+	const reports: (number | null)[] = []
+	for (let received = 100; received <= 1000; received += 100) {
+		c.t += 50
+		reports.push(progress.update("a", received)?.file.received ?? null)
+	}
+	expect(reports.filter((r) => r !== null)).toEqual([500, 1000])
+})
+
+test("an interval of 0 reports every chunk", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 30 }, { intervalMs: 0 }, c.now)
+	progress.start("a")
+	expect(progress.update("a", 10)).not.toBeNull()
+	expect(progress.update("a", 20)).not.toBeNull()
+})
+
+test("smooths speed and derives ETA from it", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 10_000 }, { intervalMs: 0, smoothing: 0.5 }, c.now)
+	progress.start("a")
+	c.t += 1000
+	const first = progress.update("a", 1000)!
+	expect(first.file.speed).toBe(1000)
+	expect(first.file.etaSeconds).toBe(9)
+	// A burst at 3000 B/s only moves the average halfway there.
+	c.t += 1000
+	const second = progress.update("a", 4000)!
+	expect(second.file.speed).toBe(2000)
+	expect(second.file.etaSeconds).toBe(3)
+})
+
+test("ETA is null until any bytes arrive", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 100 }, { intervalMs: 0 }, c.now)
+	progress.start("a")
+	c.t += 500
+	expect(progress.update("a", 0)!.file.etaSeconds).toBeNull()
+})
+
+test("session totals span every accepted file", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 100, b: 300, c: 600 }, { intervalMs: 0 }, c.now)
+	progress.complete("c")
+	progress.start("a")
+	c.t += 1000
+	progress.update("a", 100)
+	progress.start("b")
+	c.t += 1000
+	const report = progress.update("b", 100)!
+	expect(report.session).toMatchObject({
+		received: 800,
+		total: 1000,
+		filesCompleted: 2,
+		filesTotal: 3
+	})
+	// The kept file's 600 bytes never crossed the wire, so they don't count as speed.
+	expect(report.session.speed).toBeCloseTo(100, 5)
+	expect(report.session.etaSeconds).toBeCloseTo(2, 5)
+})
+
+test("restarting a file discards its earlier bytes", () => {
+	const c = clock()
+	const progress = new ProgressAggregator({ a: 100 }, { intervalMs: 0 }, c.now)
+	progress.start("a")
+	progress.update("a", 60)
+	progress.start("a")
+	c.t += 200
+	expect(progress.update("a", 10)!.session.received).toBe(10)
+})
+
+test("meterStream passes bytes through and reports them as they are pulled", async () => {
+	const c = clock()
+	const chunks = [new Uint8Array(100), new Uint8Array(100), new Uint8Array(50)]
+	const source = new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const chunk = chunks.shift()
+			if (chunk) controller.enqueue(chunk)
+			else controller.close()
+		}
+	})
+	const reports: [number, number][] = []
+	const metered = meterStream(source, (bytes, speed) => reports.push([bytes, speed]), {
+		intervalMs: 100,
+		now: c.now
+	})
+	const reader = metered.getReader()
+	let total = 0
+	for (;;) {
+		c.t += 100
+		const { done, value } = await reader.read()
+		if (done) break
+		total += value.byteLength
+	}
+	expect(total).toBe(250)
+	expect(reports.map(([bytes]) => bytes)).toEqual([100, 200, 250])
+	expect(reports[1]![1]).toBe(1000)
+})
@@ -0,0 +1,91 @@
+import { test, expect } from "bun:test"
+import { createHash } from "node:crypto"
+import { Writable } from "node:stream"
+import { receiveToSink, UploadSizeExceededError } from "../../src/core/receive.ts"
+
+const CHUNK = 64 * 1024
+
+/** A source that produces `total` bytes as fast as it is pulled, tracking how much it handed out. */
+function fastSource(total: number) {
+	const stats = { produced: 0, canceled: false }
+	const chunk = new Uint8Array(CHUNK).fill(7)
+	const stream = new ReadableStream<Uint8Array>(
+		{
+			pull(controller) {
+				if (stats.produced >= total) {
+					controller.close()
+					return
+				}
+				const size = Math.min(CHUNK, total - stats.produced)
+				stats.produced += size
+				controller.enqueue(size === CHUNK ? chunk : chunk.subarray(0, size))
+			},
+			cancel() {
+				stats.canceled = true
+			}
+		},
+		{ highWaterMark: 0 }
+	)
+	return { stream, stats }
+}
+
+// A fast network against a slow disk. Without backpressure the whole
+// body piles up in memory ahead of the sink; with it, the gap between bytes read
+// and bytes written stays around a few stream buffers.
+test("a slow sink bounds the bytes buffered in memory", async () => {
+	const total = 16 * 1024 * 1024
+	const { stream, stats } = fastSource(total)
+	let written = 0
+	let maxInFlight = 0
+	const slowSink = new Writable({
+		write(chunk: Buffer, _encoding, callback) {
+			maxInFlight = Math.max(maxInFlight, stats.produced - written)
+			setTimeout(() => {
+				written += chunk.length
+				callback()
+			}, 1)
+		}
+	})
+
+	const result = await receiveToSink(stream, slowSink, { expectedSize: total })
+
+	expect(result.received).toBe(total)
+	expect(written).toBe(total)
+	// 256 chunks of 64 KiB; anything near the full 16 MiB means backpressure is gone.
+	expect(maxInFlight).toBeLessThan(2 * 1024 * 1024)
+})
+
+test("hashes and counts the bytes it writes", async () => {
+	const data = new TextEncoder().encode("hello world")
+	const chunks: Buffer[] = []
+	const progress: number[] = []
+	const sink = new Writable({
+		write(chunk: Buffer, _encoding, callback) {
+			chunks.push(chunk)
+			callback()
+		}
+	})
+	const result = await receiveToSink(new Blob([data]).stream(), sink, {
+		expectedSize: data.length,
+		onProgress: (received) => progress.push(received)
+	})
+	expect(result).toEqual({
+		received: data.length,
+		sha256: createHash("sha256").update(data).digest("hex")
+	})
+	expect(Buffer.concat(chunks).toString()).toBe("hello world")
+	expect(progress.at(-1)).toBe(data.length)
+})
+
+test("rejects and cancels the body once it passes the expected size", async () => {
+	const { stream, stats } = fastSource(10 * CHUNK)
+	const sink = new Writable({
+		write(_chunk, _encoding, callback) {
+			callback()
+		}
+	})
+	const promise = receiveToSink(stream, sink, { expectedSize: CHUNK + 1 })
+	await expect(promise).rejects.toBeInstanceOf(UploadSizeExceededError)
+	expect(stats.canceled).toBe(true)
+	expect(stats.produced).toBeLessThan(10 * CHUNK)
+})
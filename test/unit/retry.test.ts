@@ -0,0 +1,66 @@
+import { test, expect } from "bun:test"
+import { LocalSendError } from "../../src/core/errors.ts"
+import { backoff, resolveRetryPolicy, withRetry } from "../../src/core/retry.ts"
+
+const dropped = () => new LocalSendError("network", "Could not reach the device: reset")
+
+test("transient failures are retried until the request succeeds", async () => {
+	let calls = 0
+	const result = await withRetry(resolveRetryPolicy({ baseDelayMs: 1 }), async () => {
+		if (++calls < 3) throw dropped()
+		return "ok"
+	})
+	expect(result).toBe("ok")
+	expect(calls).toBe(3)
+})
+
+test("gives up after the configured attempts with the last error", async () => {
+	let calls = 0
+	const policy = resolveRetryPolicy({ attempts: 2, baseDelayMs: 1 })
+	const request = async () => {
+		calls++
+		throw dropped()
+	}
+	await expect(withRetry(policy, request)).rejects.toMatchObject({ kind: "network" })
+	expect(calls).toBe(2)
+})
+
+test("answers from the peer and non-LocalSend errors are not retried", async () => {
+	const policy = resolveRetryPolicy({ baseDelayMs: 1 })
+	let calls = 0
+	await expect(
+		withRetry(policy, async () => {
+			calls++
+			throw LocalSendError.fromStatus(403)
+		})
+	).rejects.toMatchObject({ kind: "rejected" })
+	await expect(
+		withRetry(policy, async () => {
+			calls++
+			throw new Error("ENOENT")
+		})
+	).rejects.toThrow("ENOENT")
+	expect(calls).toBe(2)
+})
+
+test("a custom predicate decides what is retryable", async () => {
+	let calls = 0
+	const policy = resolveRetryPolicy({ baseDelayMs: 1, retryable: (e) => e.kind === "busy" })
+	await withRetry(policy, async () => {
+		if (++calls === 1) throw LocalSendError.fromStatus(409)
+	})
+	expect(calls).toBe(2)
+})
+
+test("backoff doubles up to the cap and stops early when aborted", async () => {
+	const policy = resolveRetryPolicy({ baseDelayMs: 40, maxDelayMs: 60 })
+	const started = Date.now()
+	await backoff(policy, 3)
+	expect(Date.now() - started).toBeGreaterThanOrEqual(55)
+	expect(Date.now() - started).toBeLessThan(200)
+
+	const abort = new AbortController()
+	const waiting = backoff(resolveRetryPolicy({ baseDelayMs: 10_000 }), 1, abort.signal)
+	abort.abort()
+	await expect(waiting).rejects.toMatchObject({ kind: "aborted" })
+})
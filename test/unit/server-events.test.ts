@@ -0,0 +1,30 @@
+import { test, expect } from "bun:test"
+import { ServerEventEmitter } from "../../src/server/events.ts"
+
+test("listeners can unsubscribe", () => {
+	const emitter = new ServerEventEmitter()
+	const seen: string[] = []
+	const off = emitter.on("deviceRegistered", (e) => seen.push(e.device.alias))
+	const device = { alias: "a" } as any
+	emitter.emit("deviceRegistered", { device })
+	off()
+	emitter.emit("deviceRegistered", { device })
+	expect(seen).toEqual(["a"])
+})
+
+test("a throwing listener does not stop the others", () => {
+	const emitter = new ServerEventEmitter()
+	const seen: number[] = []
+	const originalError = console.error
+	console.error = () => {}
+	try {
+		emitter.on("deviceRegistered", () => {
+			throw new Error("boom")
+		})
+		emitter.on("deviceRegistered", () => seen.push(1))
+		expect(() => emitter.emit("deviceRegistered", { device: {} as any })).not.toThrow()
+	} finally {
+		console.error = originalError
+	}
+	expect(seen).toEqual([1])
+})
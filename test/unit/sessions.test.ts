@@ -32,3 +32,11 @@ test("markReceived reports allDone when every file arrives", () => {
 	expect(store.markReceived(sessionId, "f1").allDone).toBe(false)
 	expect(store.markReceived(sessionId, "f2").allDone).toBe(true)
 })
+
+test("create issues tokens only for the accepted subset", () => {
+	const store = new UploadSessionStore()
+	const { sessionId, tokens } = store.create(info, files, ["f2"])
+	expect(Object.keys(tokens)).toEqual(["f2"])
+	expect(store.validateToken(sessionId, "f1", "anything")).toBe(false)
+	expect(store.markReceived(sessionId, "f2").allDone).toBe(true)
+})
@@ -0,0 +1,92 @@
+import { test, expect } from "bun:test"
+import { createHash } from "node:crypto"
+import path from "node:path"
+import {
+	buildFileMetadataFromSource,
+	createSendSource,
+	isReplayable,
+	openSource
+} from "../../src/core/source.ts"
+import { makeRandomFile, rmTemp, tempDir } from "../helpers/util.ts"
+
+const sha256 = (bytes: Uint8Array) => createHash("sha256").update(bytes).digest("hex")
+const drain = async (stream: ReadableStream<Uint8Array>) =>
+	new Uint8Array(await new Response(stream).arrayBuffer())
+
+async function* chunks(...parts: string[]) {
+	for (const part of parts) yield new TextEncoder().encode(part)
+}
+
+test("paths, bytes and Blobs are hashed, typed and can be opened again", async () => {
+	const dir = await tempDir()
+	try {
+		const file = await makeRandomFile(dir, "data.bin", 200_000)
+		const bytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31])
+		const sources = [
+			await createSendSource(file.path),
+			await createSendSource(bytes, { fileName: "scan" }),
+			await createSendSource(new File([bytes], "scan.pdf", { lastModified: 1_700_000_000_000 }))
+		]
+		const [fromPath, fromBytes, fromBlob] = await Promise.all(
+			sources.map((source) => buildFileMetadataFromSource(source, { fileId: "id" }))
+		)
+		expect(fromPath!.fileMetadata).toMatchObject({
+			fileName: "data.bin",
+			size: 200_000,
+			sha256: file.sha256
+		})
+		expect(fromBytes!.fileMetadata).toMatchObject({
+			fileName: "scan",
+			fileType: "application/pdf",
+			sha256: sha256(bytes)
+		})
+		expect(fromBlob!.fileMetadata).toMatchObject({
+			id: "id",
+			fileName: "scan.pdf",
+			size: 6,
+			fileType: "application/pdf",
+			sha256: sha256(bytes),
+			metadata: { modified: new Date(1_700_000_000_000).toISOString() }
+		})
+		for (const source of sources) {
+			expect(isReplayable(source)).toBe(true)
+			expect(sha256(await drain(openSource(source)))).toBe(sha256(await drain(openSource(source))))
+		}
+	} finally {
+		await rmTemp(dir)
+	}
+})
+
+test("hashLimit skips hashing a large Blob", async () => {
+	const source = await createSendSource(new Blob([new Uint8Array(1000)]), { fileName: "zeros" })
+	const { fileMetadata } = await buildFileMetadataFromSource(source, { hashLimit: 999 })
+	expect(fileMetadata.sha256).toBeUndefined()
+	expect(fileMetadata.fileType).toBe("application/octet-stream")
+})
+
+test("streams declare what they were given and are read exactly once", async () => {
+	const source = await createSendSource(chunks("hello ", "world"), {
+		fileName: "greeting.txt",
+		size: 11,
+		sha256: "abc"
+	})
+	expect(isReplayable(source)).toBe(false)
+	const { fileMetadata } = await buildFileMetadataFromSource(source)
+	expect(fileMetadata).toMatchObject({ size: 11, fileType: "text/plain", sha256: "abc" })
+	expect(new TextDecoder().decode(await drain(openSource(source)))).toBe("hello world")
+	expect(() => openSource(source)).toThrow("can only be sent once")
+})
+
+test("a stream that is shorter or longer than its size errors", async () => {
+	const short = await createSendSource(new Blob(["abc"]).stream(), { fileName: "a", size: 4 })
+	await expect(drain(openSource(short))).rejects.toThrow("ended after 3 of 4 bytes")
+	const long = await createSendSource(chunks("ab", "cd"), { fileName: "b", size: 3 })
+	await expect(drain(openSource(long))).rejects.toThrow("longer than its size of 3 bytes")
+})
+
+test("missing names, sizes and non-files are rejected up front", async () => {
+	await expect(createSendSource(new Uint8Array(1))).rejects.toThrow(TypeError)
+	await expect(createSendSource(new Blob(["x"]))).rejects.toThrow("fileName is required")
+	await expect(createSendSource(chunks("x"), { fileName: "x" })).rejects.toThrow("size in bytes")
+	await expect(createSendSource(path.dirname(import.meta.path))).rejects.toThrow("Not a file")
+})